@@ -1,5 +1,9 @@
-import { App, PluginSettingTab, Setting } from 'obsidian';
+import { App, Notice, PluginSettingTab, Setting } from 'obsidian';
 import LinearPlugin from './main';
+import { IssueInsertMode, MIN_SYNC_INTERVAL, SyncField, WorkspaceProfile } from './settings';
+import { IssueColumn, ISSUE_COLUMNS } from './renderers/display';
+import { CARD_PLACEHOLDERS } from './renderers/cardTemplate';
+import { ReleaseNotesGrouping, DEFAULT_RELEASE_NOTES_TEMPLATE, DEFAULT_RELEASE_NOTES_ISSUE_TEMPLATE } from './export/ReleaseNotes';
 
 export class LinearSettingsTab extends PluginSettingTab {
     plugin: LinearPlugin;
@@ -13,14 +17,102 @@ export class LinearSettingsTab extends PluginSettingTab {
         const { containerEl } = this;
         containerEl.empty();
 
+        this.displayWorkspaces(containerEl);
+
+        new Setting(containerEl)
+            .setName('Maximum issues per block')
+            .setDesc('How many issues a block without a limit loads before showing "Load more". Use 0 to load every issue.')
+            .addText(text => text
+                .setPlaceholder('250')
+                .setValue(String(this.plugin.settings.maxIssues))
+                .onChange(async (value) => {
+                    const count = Number(value);
+                    if (Number.isInteger(count) && count >= 0) {
+                        this.plugin.settings.maxIssues = count;
+                        await this.plugin.saveSettings();
+                    }
+                }));
+
+        new Setting(containerEl)
+            .setName('Issue cache duration')
+            .setDesc('Minutes before cached issues are refreshed in the background')
+            .addText(text => text
+                .setPlaceholder('5')
+                .setValue(String(this.plugin.settings.issueCacheTtl))
+                .onChange(async (value) => {
+                    const minutes = Number(value);
+                    if (!isNaN(minutes) && minutes >= 0) {
+                        this.plugin.settings.issueCacheTtl = minutes;
+                        await this.plugin.saveSettings();
+                    }
+                }));
+
         new Setting(containerEl)
-            .setName('API key')
-            .setDesc('Your Linear API key')
+            .setName('Metadata cache duration')
+            .setDesc('Minutes before cached teams, workflow states and users are refreshed')
             .addText(text => text
-                .setPlaceholder('Enter your API key')
-                .setValue(this.plugin.settings.apiKey)
+                .setPlaceholder('60')
+                .setValue(String(this.plugin.settings.metadataCacheTtl))
+                .onChange(async (value) => {
+                    const minutes = Number(value);
+                    if (!isNaN(minutes) && minutes >= 0) {
+                        this.plugin.settings.metadataCacheTtl = minutes;
+                        await this.plugin.saveSettings();
+                    }
+                }));
+
+        new Setting(containerEl)
+            .setName('Edit issues from notes')
+            .setDesc('Change status, assignee, priority and due date by clicking issues in Linear blocks')
+            .addToggle(toggle => toggle
+                .setValue(this.plugin.settings.allowEditing)
+                .onChange(async (value) => {
+                    this.plugin.settings.allowEditing = value;
+                    await this.plugin.saveSettings();
+                }));
+
+        new Setting(containerEl)
+            .setName('Issue chips')
+            .setDesc('Show issue identifiers such as ENG-123 in notes as chips with the issue\'s status and title')
+            .addToggle(toggle => toggle
+                .setValue(this.plugin.settings.inlineChips)
+                .onChange(async (value) => {
+                    this.plugin.settings.inlineChips = value;
+                    await this.plugin.saveSettings();
+                    // Redraw open editors with or without chips
+                    this.app.workspace.updateOptions();
+                }));
+
+        new Setting(containerEl)
+            .setName('Insert created issues as')
+            .setDesc('What replaces the selection after "Create Linear issue". Can be changed for each issue when creating it.')
+            .addDropdown(dropdown => dropdown
+                .addOption('link', 'Link')
+                .addOption('block', 'Linear block')
+                .addOption('none', 'Nothing')
+                .setValue(this.plugin.settings.insertIssueAs)
                 .onChange(async (value) => {
-                    this.plugin.settings.apiKey = value;
+                    this.plugin.settings.insertIssueAs = value as IssueInsertMode;
+                    await this.plugin.saveSettings();
+                }));
+
+        new Setting(containerEl)
+            .setName('Link comments to their note')
+            .setDesc('End comments posted from Obsidian with a link that opens the note they were written in. Can be changed for each comment.')
+            .addToggle(toggle => toggle
+                .setValue(this.plugin.settings.commentNoteLink)
+                .onChange(async (value) => {
+                    this.plugin.settings.commentNoteLink = value;
+                    await this.plugin.saveSettings();
+                }));
+
+        new Setting(containerEl)
+            .setName('Clear cache')
+            .setDesc('Remove all cached Linear data stored with this vault')
+            .addButton(button => button
+                .setButtonText('Clear')
+                .onClick(async () => {
+                    this.plugin.workspaces.clearCaches();
                     await this.plugin.saveSettings();
                 }));
 
@@ -33,5 +125,362 @@ export class LinearSettingsTab extends PluginSettingTab {
                     this.plugin.settings.debugMode = value;
                     await this.plugin.saveSettings();
                 }));
+
+        new Setting(containerEl)
+            .setName('Export columns')
+            .setDesc(`Columns of exported tables and CSV files for blocks without a columns option, from ${ISSUE_COLUMNS.join(', ')}`)
+            .addText(text => text
+                .setPlaceholder('identifier, title, status')
+                .setValue(this.plugin.settings.exportColumns.join(', '))
+                .onChange(async (value) => {
+                    const names = value.split(',').map(name => name.trim().toLowerCase()).filter(name => name);
+                    const columns = names
+                        .map(name => ISSUE_COLUMNS.find(column => column.toLowerCase() === name))
+                        .filter((column): column is IssueColumn => column !== undefined);
+                    if (columns.length && columns.length === names.length) {
+                        this.plugin.settings.exportColumns = columns;
+                        await this.plugin.saveSettings();
+                    }
+                }));
+
+        new Setting(containerEl)
+            .setName('Card template')
+            .setDesc(`Markdown for issue cards, instead of the built-in card. Blocks can set their own with the template option. Placeholders: ${CARD_PLACEHOLDERS.map(name => `{{${name}}}`).join(', ')}`)
+            .addTextArea(textArea => {
+                textArea
+                    .setPlaceholder('{{statusBadge}} **{{link}}**\n{{assignee}} · {{due}}')
+                    .setValue(this.plugin.settings.cardTemplate)
+                    .onChange(async (value) => {
+                        this.plugin.settings.cardTemplate = value;
+                        await this.plugin.saveSettings();
+                    });
+                textArea.inputEl.rows = 4;
+            });
+
+        this.displaySavedQueries(containerEl);
+
+        new Setting(containerEl).setName('Release notes').setHeading();
+
+        new Setting(containerEl)
+            .setName('Release notes folder')
+            .setDesc('Folder for notes made by "Generate release notes from Linear"')
+            .addText(text => text
+                .setPlaceholder('Release notes')
+                .setValue(this.plugin.settings.releaseNotesFolder)
+                .onChange(async (value) => {
+                    this.plugin.settings.releaseNotesFolder = value.trim();
+                    await this.plugin.saveSettings();
+                }));
+
+        new Setting(containerEl)
+            .setName('Group issues by')
+            .setDesc('Default grouping of release notes, can be changed for each note')
+            .addDropdown(dropdown => dropdown
+                .addOption('label', 'Label')
+                .addOption('project', 'Project')
+                .addOption('none', "Don't group")
+                .setValue(this.plugin.settings.releaseNotesGroupBy)
+                .onChange(async (value) => {
+                    this.plugin.settings.releaseNotesGroupBy = value as ReleaseNotesGrouping;
+                    await this.plugin.saveSettings();
+                }));
+
+        new Setting(containerEl)
+            .setName('Note template')
+            .setDesc('Placeholders: {{title}}, {{scope}}, {{from}}, {{to}}, {{date}}, {{count}} and {{issues}} for the grouped issues')
+            .addTextArea(textArea => {
+                textArea
+                    .setPlaceholder(DEFAULT_RELEASE_NOTES_TEMPLATE)
+                    .setValue(this.plugin.settings.releaseNotesTemplate)
+                    .onChange(async (value) => {
+                        this.plugin.settings.releaseNotesTemplate = value;
+                        await this.plugin.saveSettings();
+                    });
+                textArea.inputEl.rows = 6;
+            });
+
+        new Setting(containerEl)
+            .setName('Issue template')
+            .setDesc('One line per issue. Placeholders: {{identifier}}, {{title}}, {{url}}, {{assignee}}, {{labels}}, {{project}}, {{completedAt}}')
+            .addText(text => text
+                .setPlaceholder(DEFAULT_RELEASE_NOTES_ISSUE_TEMPLATE)
+                .setValue(this.plugin.settings.releaseNotesIssueTemplate)
+                .onChange(async (value) => {
+                    this.plugin.settings.releaseNotesIssueTemplate = value;
+                    await this.plugin.saveSettings();
+                }));
+
+        new Setting(containerEl).setName('Sync').setHeading();
+
+        new Setting(containerEl)
+            .setName('Sync folder')
+            .setDesc('Folder that holds one note per synced issue')
+            .addText(text => text
+                .setPlaceholder('Linear')
+                .setValue(this.plugin.settings.syncFolder)
+                .onChange(async (value) => {
+                    this.plugin.settings.syncFolder = value.trim();
+                    await this.plugin.saveSettings();
+                }));
+
+        new Setting(containerEl)
+            .setName('Sync query')
+            .setDesc('The issues to sync, written like the options of a linear block, e.g. "assignee: me"')
+            .addTextArea(text => {
+                text
+                    .setPlaceholder('team: Engineering\nassignee: me')
+                    .setValue(this.plugin.settings.syncQuery)
+                    .onChange(async (value) => {
+                        this.plugin.settings.syncQuery = value;
+                        await this.plugin.saveSettings();
+                        this.plugin.scheduleSync();
+                    });
+                text.inputEl.rows = 4;
+            });
+
+        new Setting(containerEl)
+            .setName('Sync interval')
+            .setDesc(`Minutes between automatic syncs, at least ${MIN_SYNC_INTERVAL}. Use 0 to sync only with the "Sync Linear issues to notes" command.`)
+            .addText(text => text
+                .setPlaceholder('0')
+                .setValue(String(this.plugin.settings.syncInterval))
+                .onChange(async (value) => {
+                    const minutes = Number(value);
+                    if (isNaN(minutes) || minutes < 0 || (minutes > 0 && minutes < MIN_SYNC_INTERVAL)) {
+                        // The previous interval stays in effect until a valid one is entered
+                        text.inputEl.setCustomValidity(`Enter 0, or ${MIN_SYNC_INTERVAL} or more minutes`);
+                        text.inputEl.reportValidity();
+                        return;
+                    }
+                    text.inputEl.setCustomValidity('');
+                    this.plugin.settings.syncInterval = minutes;
+                    await this.plugin.saveSettings();
+                    this.plugin.scheduleSync();
+                }));
+
+        const pushFields: Record<SyncField, string> = {
+            state: 'status',
+            assignee: 'assignee',
+            priority: 'priority',
+            dueDate: 'due date'
+        };
+        for (const [field, name] of Object.entries(pushFields) as [SyncField, string][]) {
+            new Setting(containerEl)
+                .setName(`Send ${name} edits to Linear`)
+                .setDesc(`Changes to "${field}" in a synced note's properties update the issue`)
+                .addToggle(toggle => toggle
+                    .setValue(this.plugin.settings.syncPushFields.includes(field))
+                    .onChange(async (value) => {
+                        const fields = this.plugin.settings.syncPushFields.filter(existing => existing !== field);
+                        this.plugin.settings.syncPushFields = value ? fields.concat(field) : fields;
+                        await this.plugin.saveSettings();
+                    }));
+        }
+    }
+
+    /**
+     * A name and block options per saved query. Renaming a query doesn't
+     * update the blocks that use it.
+     */
+    private displaySavedQueries(containerEl: HTMLElement) {
+        const { settings } = this.plugin;
+        new Setting(containerEl)
+            .setName('Saved queries')
+            .setDesc('Queries that blocks can use with "query: <name>" and that the Linear queries sidebar lists. Options written in a block override those of its saved query.')
+            .setHeading();
+
+        for (const query of settings.savedQueries) {
+            new Setting(containerEl)
+                .setClass('linear-saved-query-setting')
+                .addText(text => text
+                    .setPlaceholder('my-open-bugs')
+                    .setValue(query.name)
+                    .onChange(async (value) => {
+                        query.name = value.trim();
+                        await this.plugin.saveSettings();
+                    }))
+                .addTextArea(textArea => {
+                    textArea
+                        .setPlaceholder('assignee: me\nlabel: Bug\nstatus: "!Done"')
+                        .setValue(query.source)
+                        .onChange(async (value) => {
+                            query.source = value;
+                            await this.plugin.saveSettings();
+                        });
+                    textArea.inputEl.rows = 4;
+                })
+                .addExtraButton(button => button
+                    .setIcon('trash')
+                    .setTooltip('Remove saved query')
+                    .onClick(async () => {
+                        settings.savedQueries.remove(query);
+                        await this.plugin.saveSettings();
+                        this.display();
+                    }));
+        }
+
+        new Setting(containerEl)
+            .addButton(button => button
+                .setButtonText('Add saved query')
+                .onClick(async () => {
+                    settings.savedQueries.push({ name: `query-${settings.savedQueries.length + 1}`, source: '' });
+                    await this.plugin.saveSettings();
+                    this.display();
+                }));
+    }
+
+    /**
+     * One group of fields per workspace profile. Profiles keep their cache
+     * under their id, so renaming one keeps its cached data.
+     */
+    private displayWorkspaces(containerEl: HTMLElement) {
+        const { settings } = this.plugin;
+
+        for (const profile of settings.workspaces) {
+            new Setting(containerEl)
+                .setName(profile.name || 'Unnamed workspace')
+                .setHeading()
+                .addExtraButton(button => button
+                    .setIcon('trash')
+                    .setTooltip('Remove workspace')
+                    .setDisabled(settings.workspaces.length === 1)
+                    .onClick(async () => {
+                        if (settings.workspaces.length === 1) return;
+                        settings.workspaces.remove(profile);
+                        if (settings.defaultWorkspace === profile.id) {
+                            settings.defaultWorkspace = settings.workspaces[0].id;
+                        }
+                        await this.plugin.saveSettings();
+                        this.display();
+                    }));
+
+            new Setting(containerEl)
+                .setName('Name')
+                .setDesc('Used by the workspace option of Linear blocks')
+                .addText(text => text
+                    .setValue(profile.name)
+                    .onChange(async (value) => {
+                        profile.name = value.trim();
+                        await this.plugin.saveSettings();
+                    }));
+
+            const service = this.plugin.workspaces.all.find(service => service.profile.id === profile.id);
+            if (service?.isSignedIn) {
+                new Setting(containerEl)
+                    .setName('Signed in with Linear')
+                    .setDesc('Requests use your Linear sign-in rather than an API key')
+                    .addButton(button => button
+                        .setButtonText('Sign out')
+                        .onClick(async () => {
+                            await this.plugin.auth.signOut(profile);
+                            await this.plugin.saveSettings();
+                            this.display();
+                        }));
+            } else {
+                new Setting(containerEl)
+                    .setName('API key')
+                    .setDesc('Your Linear API key for this workspace. It is stored on this device only, outside the vault.')
+                    .addText(text => {
+                        text.inputEl.type = 'password';
+                        text.setPlaceholder('Enter your API key')
+                            .setValue(profile.apiKey);
+                        // A new key clears the workspace's cache, so only take it once typing or pasting is done
+                        text.inputEl.addEventListener('change', async () => {
+                            const apiKey = text.getValue().trim();
+                            if (apiKey === profile.apiKey) return;
+                            profile.apiKey = apiKey;
+                            await this.plugin.saveSettings();
+                        });
+                    })
+                    .addButton(button => button
+                        .setButtonText('Sign in with Linear')
+                        .onClick(async () => {
+                            try {
+                                await this.plugin.auth.signIn(profile);
+                            } catch (error) {
+                                new Notice(`Can't sign in: ${error instanceof Error ? error.message : String(error)}`);
+                            }
+                        }));
+            }
+
+            new Setting(containerEl)
+                .setName('Test connection')
+                .setDesc('Check that Linear accepts these credentials')
+                .addButton(button => button
+                    .setButtonText('Test')
+                    .onClick(async () => {
+                        if (!service?.isConfigured) {
+                            new Notice('Enter an API key or sign in first');
+                            return;
+                        }
+                        button.setDisabled(true);
+                        try {
+                            const { user, organization } = await service.testConnection();
+                            new Notice(`Connected to ${organization} as ${user.name} (${user.email})`);
+                        } catch (error) {
+                            new Notice(`Couldn't connect to Linear: ${error instanceof Error ? error.message : String(error)}`);
+                        } finally {
+                            button.setDisabled(false);
+                        }
+                    }));
+
+            new Setting(containerEl)
+                .setName('Default team')
+                .setDesc('Team name or key used by blocks without a team option and preselected for new issues')
+                .addText(text => text
+                    .setPlaceholder('ENG')
+                    .setValue(profile.defaultTeam)
+                    .onChange(async (value) => {
+                        profile.defaultTeam = value.trim();
+                        await this.plugin.saveSettings();
+                    }));
+        }
+
+        new Setting(containerEl)
+            .setName('Add workspace')
+            .setDesc('Connect another Linear workspace with its own API key')
+            .addButton(button => button
+                .setButtonText('Add')
+                .onClick(async () => {
+                    const profile: WorkspaceProfile = {
+                        id: Date.now().toString(36),
+                        name: `Workspace ${settings.workspaces.length + 1}`,
+                        apiKey: '',
+                        defaultTeam: ''
+                    };
+                    settings.workspaces.push(profile);
+                    await this.plugin.saveSettings();
+                    this.display();
+                }));
+
+        new Setting(containerEl)
+            .setName('OAuth client ID')
+            .setDesc('To sign in with Linear instead of using API keys, create an OAuth application in Linear with the callback URL obsidian://linear-auth and enter its client ID')
+            .addText(text => text
+                .setPlaceholder('Client ID')
+                .setValue(settings.oauthClientId)
+                .onChange(async (value) => {
+                    settings.oauthClientId = value.trim();
+                    await this.plugin.saveSettings();
+                }));
+
+        if (settings.workspaces.length > 1) {
+            new Setting(containerEl)
+                .setName('Default workspace')
+                .setDesc('Used by blocks, chips and new issues that don\'t name a workspace')
+                .addDropdown(dropdown => {
+                    for (const profile of settings.workspaces) {
+                        dropdown.addOption(profile.id, profile.name || 'Unnamed workspace');
+                    }
+                    dropdown
+                        .setValue(this.plugin.workspaces.default.profile.id)
+                        .onChange(async (value) => {
+                            settings.defaultWorkspace = value;
+                            await this.plugin.saveSettings();
+                        });
+                });
+        }
+
+        new Setting(containerEl).setName('General').setHeading();
     }
-} 
\ No newline at end of file
+}
@@ -0,0 +1,122 @@
+import { RangeSetBuilder, Text } from "@codemirror/state";
+import { Decoration, DecorationSet, EditorView, ViewPlugin, ViewUpdate, WidgetType } from "@codemirror/view";
+import { editorInfoField, editorLivePreviewField } from "obsidian";
+import { IssueChipRenderer } from '../renderers/IssueChipRenderer';
+
+class IssueChipWidget extends WidgetType {
+    constructor(private chips: IssueChipRenderer, readonly identifier: string, readonly sourcePath: string) {
+        super();
+    }
+
+    eq(other: IssueChipWidget): boolean {
+        return other.identifier === this.identifier && other.sourcePath === this.sourcePath;
+    }
+
+    toDOM(): HTMLElement {
+        return this.chips.createChip(this.identifier, this.sourcePath);
+    }
+
+    ignoreEvent(): boolean {
+        return false;
+    }
+}
+
+/**
+ * Lines of the document that hold code or frontmatter, where identifiers are
+ * left as they are. Scans the whole document, since a fence can open above
+ * the visible part of the note, so callers keep the result until it changes.
+ */
+function codeLines(doc: Text): Set<number> {
+    const lines = new Set<number>();
+    let fence: string | null = null;
+    let inFrontmatter = doc.lines > 0 && doc.line(1).text.trim() === '---';
+
+    for (let number = 1; number <= doc.lines; number++) {
+        const text = doc.line(number).text;
+        if (inFrontmatter) {
+            lines.add(number);
+            if (number > 1 && text.trim() === '---') inFrontmatter = false;
+            continue;
+        }
+
+        const marker = text.match(/^\s*(`{3,}|~{3,})/)?.[1];
+        if (fence) {
+            lines.add(number);
+            if (marker && marker[0] === fence[0] && marker.length >= fence.length) fence = null;
+        } else if (marker) {
+            lines.add(number);
+            fence = marker;
+        }
+    }
+    return lines;
+}
+
+/**
+ * Whether `index` in `text` falls inside inline code or the text of a link.
+ */
+function insideInlineMarkup(text: string, index: number): boolean {
+    const before = text.slice(0, index);
+    const backticks = (before.match(/`/g) ?? []).length;
+    const brackets = (before.match(/\[/g) ?? []).length - (before.match(/\]/g) ?? []).length;
+    return backticks % 2 === 1 || brackets > 0;
+}
+
+function buildDecorations(view: EditorView, chips: IssueChipRenderer, skipped: Set<number>): DecorationSet {
+    const builder = new RangeSetBuilder<Decoration>();
+    if (!chips.enabled || !view.state.field(editorLivePreviewField)) {
+        return builder.finish();
+    }
+
+    const sourcePath = view.state.field(editorInfoField)?.file?.path ?? '';
+    const selection = view.state.selection;
+    const doc = view.state.doc;
+
+    for (const { from, to } of view.visibleRanges) {
+        for (let number = doc.lineAt(from).number; number <= doc.lineAt(to).number; number++) {
+            if (skipped.has(number)) continue;
+            const line = doc.line(number);
+            for (const match of chips.findIdentifiers(line.text)) {
+                const start = line.from + match.from;
+                const end = line.from + match.to;
+                // Show the raw text while the cursor is on it, so it can be edited
+                const touched = selection.ranges.some(range => range.from <= end && range.to >= start);
+                if (touched || insideInlineMarkup(line.text, match.from)) continue;
+
+                builder.add(start, end, Decoration.replace({
+                    widget: new IssueChipWidget(chips, match.identifier, sourcePath)
+                }));
+            }
+        }
+    }
+    return builder.finish();
+}
+
+/**
+ * Live preview counterpart of `IssueReferenceProcessor`: replaces issue
+ * identifiers outside code and links with chips.
+ */
+export function issueChipExtension(chips: IssueChipRenderer) {
+    return ViewPlugin.fromClass(class {
+        decorations: DecorationSet;
+        // Code lines of the current document, found again only when it changes
+        skipped: Set<number>;
+
+        constructor(view: EditorView) {
+            this.skipped = codeLines(view.state.doc);
+            this.decorations = buildDecorations(view, chips, this.skipped);
+        }
+
+        update(update: ViewUpdate) {
+            if (update.docChanged) {
+                this.skipped = codeLines(update.state.doc);
+            }
+            if (update.docChanged || update.viewportChanged || update.selectionSet ||
+                update.startState.field(editorLivePreviewField) !== update.state.field(editorLivePreviewField) ||
+                update.transactions.some(transaction => transaction.reconfigured)) {
+                this.decorations = buildDecorations(update.view, chips, this.skipped);
+            }
+        }
+    }, {
+        decorations: plugin => plugin.decorations
+    });
+}
@@ -0,0 +1,170 @@
+import { App, Notice, TFile } from "obsidian";
+import { LinearIssue } from "../services/LinearService";
+import { LinearWorkspaces } from "../services/LinearWorkspaces";
+import { LinearPluginSettings } from '../settings';
+import { log } from '../log';
+import { parseBlockOptions } from '../query/options';
+import { queryVariables } from '../query/variables';
+import { IssueColumn, COLUMN_TITLES, priorityLabel } from '../renderers/display';
+
+export type ExportFormat = 'table' | 'checklist' | 'csv';
+
+export const EXPORT_FORMATS: Record<ExportFormat, string> = {
+    table: 'Markdown table',
+    checklist: 'Task list',
+    csv: 'CSV file'
+};
+
+/**
+ * Plain text value of a column, as written into exports.
+ */
+function columnText(issue: LinearIssue, column: IssueColumn): string {
+    switch (column) {
+        case 'identifier': return issue.identifier;
+        case 'title': return issue.title;
+        case 'status': return issue.state?.name ?? '';
+        case 'assignee': return issue.assignee?.name ?? 'Unassigned';
+        case 'priority': return priorityLabel(issue.priority);
+        case 'estimate': return issue.estimate !== undefined ? String(issue.estimate) : '';
+        case 'dueDate': return issue.dueDate ?? '';
+        case 'labels': return issue.labels.map(label => label.name).join(', ');
+    }
+}
+
+function tableCell(value: string): string {
+    return value.replace(/\|/g, '\\|').replace(/\s*\n\s*/g, ' ');
+}
+
+export function issuesToMarkdownTable(issues: LinearIssue[], columns: IssueColumn[]): string {
+    const rows = issues.map(issue => columns.map(column =>
+        // Identifiers link to Linear so the table stays useful outside the vault
+        column === 'identifier' ? `[${issue.identifier}](${issue.url})` : tableCell(columnText(issue, column))
+    ));
+    return [
+        columns.map(column => COLUMN_TITLES[column]),
+        columns.map(() => '---'),
+        ...rows
+    ].map(cells => `| ${cells.join(' | ')} |`).join('\n');
+}
+
+export function issuesToChecklist(issues: LinearIssue[]): string {
+    return issues
+        .map(issue => `- [${issue.state?.type === 'completed' ? 'x' : ' '}] ${issue.identifier} ${issue.title}`)
+        .join('\n');
+}
+
+function csvField(value: string): string {
+    return /[",\r\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+}
+
+export function issuesToCsv(issues: LinearIssue[], columns: IssueColumn[]): string {
+    return [
+        columns.map(column => COLUMN_TITLES[column]),
+        ...issues.map(issue => columns.map(column => columnText(issue, column)))
+    ].map(fields => fields.map(csvField).join(',')).join('\r\n') + '\r\n';
+}
+
+/**
+ * Returns `content` with `text` inserted as its own paragraph after line
+ * `line`, which closes the block being exported.
+ */
+export function insertAfterLine(content: string, line: number, text: string): string {
+    const lines = content.split('\n');
+    const following = lines.slice(line + 1);
+    const separator = following.length && following[0].trim() ? [''] : [];
+    return [...lines.slice(0, line + 1), '', text, ...separator, ...following].join('\n');
+}
+
+/**
+ * Writes a snapshot of a block's issues into the note as a Markdown table or
+ * task list, or into a CSV file next to it. The block's `columns` option picks
+ * the columns, falling back to the export columns from settings.
+ */
+export class IssueExporter {
+    constructor(
+        private app: App,
+        private settings: LinearPluginSettings,
+        private workspaces: LinearWorkspaces
+    ) {}
+
+    /**
+     * Runs the block's query and writes the result. Table and task list text is
+     * handed to `insert`, CSV goes to a new file. Failures are shown as notices.
+     */
+    async exportBlock(source: string, format: ExportFormat, sourcePath: string, insert: (text: string) => Promise<void> | void) {
+        try {
+            const { issues, columns, capped } = await this.loadBlockIssues(source, sourcePath);
+            if (!issues.length) {
+                new Notice('No Linear issues to export');
+                return;
+            }
+
+            switch (format) {
+                case 'table':
+                    await insert(issuesToMarkdownTable(issues, columns));
+                    break;
+                case 'checklist':
+                    await insert(issuesToChecklist(issues));
+                    break;
+                case 'csv': {
+                    const file = await this.writeCsv(issuesToCsv(issues, columns), sourcePath);
+                    new Notice(`Exported ${issues.length} Linear issues to ${file.path}`);
+                    break;
+                }
+            }
+            if (capped) {
+                new Notice(`Only the first ${issues.length} Linear issues were exported, the block's limit leaves out the rest`);
+            }
+            log(this.settings, `Exported ${issues.length} issues as ${format}`);
+        } catch (error) {
+            log(this.settings, 'Failed to export issues', error, true);
+            new Notice(`Failed to export Linear issues: ${error instanceof Error ? error.message : String(error)}`);
+        }
+    }
+
+    /**
+     * Fetches the block's issues straight from Linear, so exports are never
+     * stale: every issue matching its query, past the "Maximum issues per
+     * block" setting. `capped` tells when the block's own limit left some out.
+     */
+    private async loadBlockIssues(source: string, sourcePath: string): Promise<{ issues: LinearIssue[]; columns: IssueColumn[]; capped: boolean }> {
+        const { options, display, parsed, diagnostics } = parseBlockOptions(
+            source,
+            this.settings.savedQueries,
+            queryVariables(this.app, sourcePath)
+        );
+        if (diagnostics.length) {
+            const [first] = diagnostics;
+            throw new Error(`the block has a problem: ${first.key ? `${first.key}: ` : ''}${first.message}`);
+        }
+
+        const linearService = this.workspaces.find(parsed.workspace);
+        if (!linearService) {
+            throw new Error(`unknown workspace "${parsed.workspace}"`);
+        }
+        if (!linearService.isConfigured) {
+            throw new Error(`configure the API key for the "${linearService.workspaceName}" workspace in settings`);
+        }
+        const columns = display.columns ?? this.settings.exportColumns;
+
+        const ids: string[] = Array.isArray(parsed.ids)
+            ? parsed.ids
+            : [parsed.id || parsed.issueId].filter(id => typeof id === 'string');
+        if (ids.length) {
+            const issues = await linearService.refreshIssuesByIds(ids);
+            return { issues: issues.filter((issue): issue is LinearIssue => issue !== null), columns, capped: false };
+        }
+
+        linearService.applyDefaultTeam(options);
+        const page = await linearService.fetchAllIssues(options);
+        return { issues: page.issues, columns, capped: page.hasNextPage };
+    }
+
+    private async writeCsv(csv: string, sourcePath: string): Promise<TFile> {
+        const note = this.app.vault.getAbstractFileByPath(sourcePath);
+        const basename = note instanceof TFile ? note.basename : 'Linear';
+        const date = new Date().toISOString().slice(0, 10);
+        const path = await this.app.fileManager.getAvailablePathForAttachment(`${basename} issues ${date}.csv`, sourcePath);
+        return this.app.vault.create(path, csv);
+    }
+}
@@ -0,0 +1,126 @@
+import { App, TFile, TFolder, normalizePath } from "obsidian";
+import { LinearService, LinearIssue, CompletedIssuesScope } from "../services/LinearService";
+import { LinearPluginSettings } from '../settings';
+import { log } from '../log';
+import { fillTemplate } from './template';
+
+export type ReleaseNotesGrouping = 'label' | 'project' | 'none';
+
+export interface ReleaseNotesRequest {
+    scope: CompletedIssuesScope;
+    scopeName: string; // team, project or cycle as shown in the note
+    from: string; // YYYY-MM-DD, inclusive
+    to: string; // YYYY-MM-DD, inclusive
+    groupBy: ReleaseNotesGrouping;
+}
+
+export const DEFAULT_RELEASE_NOTES_TEMPLATE = '# {{title}}\n\n{{count}} issues completed between {{from}} and {{to}}.\n\n{{issues}}\n';
+export const DEFAULT_RELEASE_NOTES_ISSUE_TEMPLATE = '- {{title}} ([{{identifier}}]({{url}}))';
+
+// Characters Obsidian doesn't allow in note names
+const INVALID_NAME_CHARACTERS = /[\\/:*?"<>|#^[\]]/g;
+
+function issueValues(issue: LinearIssue): Record<string, string> {
+    return {
+        identifier: issue.identifier,
+        title: issue.title,
+        url: issue.url,
+        assignee: issue.assignee?.name ?? '',
+        labels: issue.labels.map(label => label.name).join(', '),
+        project: issue.project?.name ?? '',
+        completedAt: issue.completedAt?.slice(0, 10) ?? ''
+    };
+}
+
+/**
+ * Sorts issues into named sections. An issue with several labels is listed
+ * under each of them; issues without one end up in a last, catch-all section.
+ */
+function groupIssues(issues: LinearIssue[], groupBy: ReleaseNotesGrouping): [string, LinearIssue[]][] {
+    if (groupBy === 'none') return [['', issues]];
+
+    const groups = new Map<string, LinearIssue[]>();
+    const other: LinearIssue[] = [];
+    for (const issue of issues) {
+        const names = groupBy === 'label'
+            ? issue.labels.map(label => label.name)
+            : issue.project ? [issue.project.name] : [];
+        if (!names.length) other.push(issue);
+        for (const name of names) {
+            groups.set(name, (groups.get(name) ?? []).concat(issue));
+        }
+    }
+
+    const sections = Array.from(groups).sort(([a], [b]) => a.localeCompare(b));
+    if (other.length) {
+        sections.push([groupBy === 'label' ? 'Other' : 'No project', other]);
+    }
+    return sections;
+}
+
+export function renderReleaseNotes(
+    issues: LinearIssue[],
+    request: ReleaseNotesRequest,
+    template: string,
+    issueTemplate: string
+): string {
+    const sections = groupIssues(issues, request.groupBy).map(([name, groupIssues]) => {
+        const lines = groupIssues.map(issue => fillTemplate(issueTemplate, issueValues(issue))).join('\n');
+        return name ? `## ${name}\n\n${lines}` : lines;
+    });
+
+    return fillTemplate(template, {
+        title: `${request.scopeName} release notes`,
+        scope: request.scopeName,
+        from: request.from,
+        to: request.to,
+        date: new Date().toISOString().slice(0, 10),
+        count: String(issues.length),
+        issues: sections.join('\n\n')
+    });
+}
+
+/**
+ * Writes release notes for the issues completed in a team, project or cycle
+ * into a new note, using the templates from settings.
+ */
+export class ReleaseNotesGenerator {
+    constructor(private app: App, private settings: LinearPluginSettings) {}
+
+    /**
+     * Creates the note and returns it, or returns null when no issues were
+     * completed in the range. Throws when Linear can't be reached.
+     */
+    async generate(linearService: LinearService, request: ReleaseNotesRequest): Promise<TFile | null> {
+        // Both ends of the range are whole local days
+        const from = new Date(`${request.from}T00:00:00`);
+        const to = new Date(`${request.to}T23:59:59.999`);
+        const issues = await linearService.getCompletedIssues(request.scope, from, to);
+        log(this.settings, `Generating release notes from ${issues.length} issues`, request);
+        if (!issues.length) return null;
+
+        issues.sort((a, b) => (a.completedAt ?? '').localeCompare(b.completedAt ?? ''));
+        const content = renderReleaseNotes(
+            issues,
+            request,
+            this.settings.releaseNotesTemplate || DEFAULT_RELEASE_NOTES_TEMPLATE,
+            this.settings.releaseNotesIssueTemplate || DEFAULT_RELEASE_NOTES_ISSUE_TEMPLATE
+        );
+
+        const folder = normalizePath(this.settings.releaseNotesFolder || '/');
+        if (folder !== '/' && !(this.app.vault.getAbstractFileByPath(folder) instanceof TFolder)) {
+            await this.app.vault.createFolder(folder);
+        }
+        const name = `${request.scopeName} ${request.from} to ${request.to}`.replace(INVALID_NAME_CHARACTERS, '-');
+        return this.app.vault.create(this.availablePath(folder, name), content);
+    }
+
+    private availablePath(folder: string, name: string): string {
+        const prefix = folder === '/' ? '' : `${folder}/`;
+        let path = normalizePath(`${prefix}${name}.md`);
+        for (let copy = 2; this.app.vault.getAbstractFileByPath(path); copy++) {
+            path = normalizePath(`${prefix}${name} ${copy}.md`);
+        }
+        return path;
+    }
+}
@@ -0,0 +1,9 @@
+/**
+ * Replaces `{{name}}` placeholders with `values[name]`. Unknown placeholders
+ * are left as written, so a typo shows up in the output.
+ */
+export function fillTemplate(template: string, values: Record<string, string>): string {
+    return template.replace(/\{\{\s*([\w.]+)\s*\}\}/g, (placeholder, name: string) =>
+        Object.prototype.hasOwnProperty.call(values, name) ? values[name] : placeholder
+    );
+}
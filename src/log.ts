@@ -0,0 +1,16 @@
+import { LinearPluginSettings } from './settings';
+
+const PREFIX = '🔄 Linear Plugin: ';
+
+/**
+ * Writes to the developer console when debug mode is on in settings.
+ */
+export function log(settings: LinearPluginSettings | undefined, message: string, data?: unknown, isError: boolean = false) {
+    if (!settings?.debugMode) return;
+
+    if (isError) {
+        console.error(PREFIX + message, data);
+    } else {
+        console.log(PREFIX + message, data || '');
+    }
+}
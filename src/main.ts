@@ -1,49 +1,75 @@
-import { Plugin } from 'obsidian';
+import { Plugin, Editor, TFile, Notice, WorkspaceLeaf, ObsidianProtocolData, debounce, getFrontMatterInfo, stringifyYaml } from 'obsidian';
 import { LinearSettingsTab } from './SettingsTab';
-import { LinearPluginSettings, DEFAULT_SETTINGS } from './settings';
+import { LinearPluginSettings, DEFAULT_SETTINGS, MIN_SYNC_INTERVAL, IssueInsertMode, withoutCredentials } from './settings';
+import { log } from './log';
 import { LinearProcessor } from './processors/LinearProcessor';
+import { LinearWorkspaces } from './services/LinearWorkspaces';
+import { LinearAuth, OAUTH_ACTION } from './services/LinearAuth';
+import { CredentialStore } from './services/CredentialStore';
+import { CreateIssueModal, IssueDraft } from './modals/CreateIssueModal';
+import { IssueChipRenderer } from './renderers/IssueChipRenderer';
+import { IssueReferenceProcessor } from './processors/IssueReferenceProcessor';
+import { issueChipExtension } from './editor/issueChipExtension';
+import { BlockOptionSuggest } from './suggest/BlockOptionSuggest';
+import { IssueSuggest } from './suggest/IssueSuggest';
+import { IssueSync, SyncState } from './sync/IssueSync';
+import { IssueExporter } from './export/IssueExporter';
+import { ExportFormatModal } from './modals/ExportFormatModal';
+import { ReleaseNotesGenerator, ReleaseNotesRequest } from './export/ReleaseNotes';
+import { ReleaseNotesModal } from './modals/ReleaseNotesModal';
+import { CommentModal, appendNoteLink } from './modals/CommentModal';
+import { IssueSearchModal } from './modals/IssueSearchModal';
+import { LinearService, LinearIssue, IssueSummary } from './services/LinearService';
+import { SavedQueriesView, SAVED_QUERIES_VIEW } from './views/SavedQueriesView';
 
 export default class LinearPlugin extends Plugin {
     settings: LinearPluginSettings;
+    workspaces: LinearWorkspaces;
+    auth: LinearAuth;
+    issueSync: IssueSync;
+    private credentials: CredentialStore;
+    private settingsTab: LinearSettingsTab;
+    private syncState: SyncState;
+    private syncTimer: number | null = null;
+    private chips: IssueChipRenderer;
+    // Rendered `linear` blocks, so they can be refreshed together
+    private processors = new Set<LinearProcessor>();
 
-    private log(message: string, data?: any, isError: boolean = false) {
-        if (!this.settings?.debugMode) return;
-        
-        const prefix = '🔄 Linear Plugin: ';
-        if (isError) {
-            console.error(prefix + message, data);
-        } else {
-            console.log(prefix + message, data || '');
-        }
-    }
+    // Cache writes are frequent while a note renders, so persist them in batches
+    private requestSave = debounce(() => this.persistData(), 2000, true);
+    // Settings are saved on every keystroke, so re-render blocks once typing stops
+    private requestRerender = debounce(() => this.rerenderBlocks(), 1000, true);
+    // Workspaces added, removed or signed in to change the team keys chips match
+    private requestChipReload = debounce(
+        () => this.chips.reloadTeamKeys().then(() => this.app.workspace.updateOptions()), 1000, true
+    );
 
     async onload() {
-        this.log('Loading plugin');
+        log(this.settings, 'Loading plugin');
         await this.loadSettings();
-        this.log('Settings loaded', this.settings);
+        this.issueSync = new IssueSync(this.app, this.settings, this.workspaces, this.syncState, () => this.requestSave());
 
         // Add settings tab
-        this.addSettingTab(new LinearSettingsTab(this.app, this));
-        this.log('Settings tab added');
+        this.settingsTab = new LinearSettingsTab(this.app, this);
+        this.addSettingTab(this.settingsTab);
+        log(this.settings, 'Settings tab added');
+
+        // Linear sends the browser back here after signing in
+        this.registerObsidianProtocolHandler(OAUTH_ACTION, params => this.completeSignIn(params));
 
         // Register Linear code block processor
         this.registerMarkdownCodeBlockProcessor('linear', async (source, el, ctx) => {
-            this.log('Processing Linear code block', { source });
-            
-            if (!this.settings.apiKey) {
-                this.log('No API key configured - cannot process block');
-                const div = el.createDiv();
-                div.setText('Please configure your Linear API key in settings.');
-                return;
-            }
+            log(this.settings, 'Processing Linear code block', { source });
 
             try {
                 const div = el.createDiv();
-                const processor = new LinearProcessor(this.settings, div, this.app);
+                const processor = new LinearProcessor(this.settings, div, this.app, this.workspaces);
                 ctx.addChild(processor);
+                // Blocks without an API key are tracked too, so they render once one is entered
+                this.trackProcessor(processor);
                 await processor.process(source, div, ctx);
             } catch (error) {
-                this.log('Failed to process Linear block', error, true);
+                log(this.settings, 'Failed to process Linear block', error, true);
                 el.createEl('div', {
                     cls: 'linear-error',
                     text: 'Error loading Linear issues. Please check the console for details.'
@@ -51,20 +77,366 @@ export default class LinearPlugin extends Plugin {
             }
         });
 
-        this.log('Plugin loaded successfully');
+        // Issue identifiers written in notes, in reading mode and live preview
+        const chips = new IssueChipRenderer(this.app, this.settings, this.workspaces);
+        this.chips = chips;
+        const referenceProcessor = new IssueReferenceProcessor(chips);
+        this.registerMarkdownPostProcessor((el, ctx) => referenceProcessor.process(el, ctx));
+        this.registerEditorExtension(issueChipExtension(chips));
+        // Team keys may only arrive after editors have drawn, so redraw them once known
+        chips.ready.then(() => this.app.workspace.updateOptions());
+
+        // Block options first, so identifiers typed in `id:` lines complete as options
+        this.registerEditorSuggest(new BlockOptionSuggest(this.app, this.settings, this.workspaces));
+        this.registerEditorSuggest(new IssueSuggest(this.app, this.settings, this.workspaces));
+
+        this.addCommand({
+            id: 'create-issue',
+            name: 'Create Linear issue',
+            editorCallback: (editor, view) => this.createIssue(editor, view.file)
+        });
+
+        this.addCommand({
+            id: 'comment-on-issue',
+            name: 'Comment on Linear issue',
+            editorCallback: (editor, view) => this.commentOnIssue(editor, view.file, chips)
+        });
+
+        this.registerView(SAVED_QUERIES_VIEW, leaf => new SavedQueriesView(leaf, this));
+        this.addCommand({
+            id: 'open-saved-queries',
+            name: 'Open saved Linear queries',
+            callback: () => this.openSavedQueries()
+        });
+
+        this.addCommand({
+            id: 'refresh-blocks',
+            name: 'Refresh all Linear blocks',
+            callback: () => this.refreshBlocks()
+        });
+
+        this.addCommand({
+            id: 'export-block',
+            name: 'Export Linear block at cursor',
+            editorCheckCallback: (checking, editor, view) => {
+                const block = this.findLinearBlock(editor);
+                if (!block || !view.file) return false;
+                if (!checking) {
+                    const sourcePath = view.file.path;
+                    const exporter = new IssueExporter(this.app, this.settings, this.workspaces);
+                    new ExportFormatModal(this.app, format => exporter.exportBlock(block.source, format, sourcePath, text => {
+                        const end = { line: block.end, ch: editor.getLine(block.end).length };
+                        editor.replaceRange(`\n\n${text}\n`, end);
+                    })).open();
+                }
+                return true;
+            }
+        });
+
+        this.addCommand({
+            id: 'generate-release-notes',
+            name: 'Generate release notes from Linear',
+            callback: () => {
+                if (!this.workspaces.configured.length) {
+                    new Notice('Please configure your Linear API key in settings.');
+                    return;
+                }
+                new ReleaseNotesModal(this.app, this.settings, this.workspaces,
+                    (linearService, request) => this.generateReleaseNotes(linearService, request)).open();
+            }
+        });
+
+        this.addCommand({
+            id: 'sync-issues',
+            name: 'Sync Linear issues to notes',
+            callback: () => this.syncIssues(true)
+        });
+        this.scheduleSync();
+
+        this.registerEvent(this.app.workspace.on('editor-menu', (menu, editor, view) => {
+            menu.addItem(item => item
+                .setTitle(editor.somethingSelected() ? 'Create Linear issue from selection' : 'Create Linear issue')
+                .setIcon('plus-circle')
+                .onClick(() => this.createIssue(editor, view.file)));
+        }));
+
+        log(this.settings, 'Plugin loaded successfully');
+    }
+
+    /**
+     * The `linear` block around the cursor: its options and the line of its
+     * closing fence.
+     */
+    private findLinearBlock(editor: Editor): { source: string; end: number } | null {
+        const fence = /^\s*(```|~~~)/;
+        const cursor = editor.getCursor().line;
+        let start = cursor;
+        while (start >= 0 && !fence.test(editor.getLine(start))) start--;
+        if (start < 0 || !/^\s*(```+|~~~+)\s*linear\s*$/.test(editor.getLine(start))) return null;
+
+        let end = start + 1;
+        while (end < editor.lineCount() && !fence.test(editor.getLine(end))) end++;
+        if (end >= editor.lineCount() || cursor > end) return null;
+
+        const lines: string[] = [];
+        for (let line = start + 1; line < end; line++) {
+            lines.push(editor.getLine(line));
+        }
+        return { source: lines.join('\n'), end };
+    }
+
+    /**
+     * Includes a rendered block in refreshes and redraws until it is unloaded.
+     */
+    trackProcessor(processor: LinearProcessor) {
+        this.processors.add(processor);
+        processor.register(() => this.processors.delete(processor));
+    }
+
+    /**
+     * Shows the saved queries view in the right sidebar, opening it if needed.
+     */
+    private async openSavedQueries() {
+        const { workspace } = this.app;
+        let leaf: WorkspaceLeaf | null = workspace.getLeavesOfType(SAVED_QUERIES_VIEW)[0] ?? null;
+        if (!leaf) {
+            leaf = workspace.getRightLeaf(false);
+            if (!leaf) return;
+            await leaf.setViewState({ type: SAVED_QUERIES_VIEW, active: true });
+        }
+        await workspace.revealLeaf(leaf);
+    }
+
+    /**
+     * Fetches every rendered block's issues from Linear again.
+     */
+    async refreshBlocks() {
+        log(this.settings, `Refreshing ${this.processors.size} Linear blocks`);
+        await Promise.all(Array.from(this.processors, processor => processor.refresh()));
+    }
+
+    private async rerenderBlocks() {
+        for (const leaf of this.app.workspace.getLeavesOfType(SAVED_QUERIES_VIEW)) {
+            if (leaf.view instanceof SavedQueriesView) leaf.view.onSettingsChanged();
+        }
+        await Promise.all(Array.from(this.processors, processor => processor.rerender()));
+    }
+
+    private async generateReleaseNotes(linearService: LinearService, request: ReleaseNotesRequest) {
+        new Notice('Generating release notes...');
+        try {
+            const file = await new ReleaseNotesGenerator(this.app, this.settings).generate(linearService, request);
+            if (!file) {
+                new Notice(`No issues in ${request.scopeName} were completed between ${request.from} and ${request.to}`);
+                return;
+            }
+            await this.app.workspace.getLeaf(true).openFile(file);
+        } catch (error) {
+            log(this.settings, 'Failed to generate release notes', error, true);
+            new Notice(`Failed to generate release notes: ${error instanceof Error ? error.message : String(error)}`);
+        }
+    }
+
+    /**
+     * Runs a sync. Scheduled runs stay quiet unless something needs attention.
+     */
+    async syncIssues(interactive: boolean) {
+        if (this.issueSync.isRunning) return;
+        if (interactive) new Notice('Syncing Linear issues...');
+
+        try {
+            const result = await this.issueSync.run();
+            const summary = `Linear sync: ${result.created} created, ${result.updated} updated, ${result.pushed} changes sent to Linear`;
+            if (interactive || result.conflicts.length || result.errors.length) {
+                const problems = [
+                    ...result.conflicts.map(conflict => `Changed in both places: ${conflict}`),
+                    ...result.errors
+                ];
+                new Notice([summary, ...problems].join('\n'), problems.length ? 0 : undefined);
+            }
+        } catch (error) {
+            log(this.settings, 'Sync failed', error, true);
+            new Notice(`Linear sync failed: ${error instanceof Error ? error.message : String(error)}`);
+        }
+    }
+
+    /**
+     * (Re)starts the sync timer from the current settings.
+     */
+    scheduleSync() {
+        if (this.syncTimer !== null) {
+            window.clearInterval(this.syncTimer);
+            this.syncTimer = null;
+        }
+        if (this.settings.syncInterval > 0 && this.settings.syncQuery.trim()) {
+            // Intervals below the minimum may come from settings saved by hand
+            const minutes = Math.max(this.settings.syncInterval, MIN_SYNC_INTERVAL);
+            this.syncTimer = window.setInterval(() => this.syncIssues(false), minutes * 60 * 1000);
+        }
+    }
+
+    /**
+     * Opens the new issue form, pre-filled from the selection or else the whole
+     * note, and puts a reference to the created issue in place of the selection.
+     */
+    private createIssue(editor: Editor, file: TFile | null) {
+        if (!this.workspaces.configured.length) {
+            new Notice('Please configure your Linear API key in settings.');
+            return;
+        }
+
+        const selection = editor.getSelection();
+        // Keep a selected list item or task a list item once it links to the issue
+        const listPrefix = selection.match(/^\s*(?:[-*+]|\d+\.)\s+(?:\[.\]\s+)?/)?.[0] ?? '';
+        const draft = this.draftFromNote(selection, editor.getValue(), file);
+
+        new CreateIssueModal(this.app, this.settings, this.workspaces, draft, (issue, linearService, insertAs) => {
+            const reference = this.issueReference(issue, linearService, insertAs, listPrefix);
+            if (reference !== null) {
+                editor.replaceSelection(reference);
+            }
+        }).open();
+    }
+
+    /**
+     * Comments on the issue whose identifier is at the cursor, or else one
+     * picked from a search, with the selection as the starting text.
+     */
+    private commentOnIssue(editor: Editor, file: TFile | null, chips: IssueChipRenderer) {
+        if (!this.workspaces.configured.length) {
+            new Notice('Please configure your Linear API key in settings.');
+            return;
+        }
+
+        const cursor = editor.getCursor();
+        const match = chips.findIdentifiers(editor.getLine(cursor.line))
+            .find(match => match.from <= cursor.ch && cursor.ch <= match.to);
+        const selection = editor.getSelection();
+
+        const openComment = (linearService: LinearService, issue: IssueSummary) => {
+            new CommentModal(this.app, this.settings, `${issue.identifier} ${issue.title}`, selection, async (body, linkNote) => {
+                try {
+                    await linearService.createComment(issue.id, linkNote && file ? appendNoteLink(this.app, body, file.path) : body);
+                    new Notice(`Commented on ${issue.identifier}`);
+                } catch (error) {
+                    log(this.settings, `Failed to comment on ${issue.identifier}`, error, true);
+                    new Notice(`Failed to comment on ${issue.identifier}: ${error instanceof Error ? error.message : String(error)}`);
+                    throw error;
+                }
+            }).open();
+        };
+
+        if (!match) {
+            const linearService = this.workspaces.default.isConfigured ? this.workspaces.default : this.workspaces.configured[0];
+            new IssueSearchModal(this.app, this.settings, linearService, issue => openComment(linearService, issue)).open();
+            return;
+        }
+
+        const linearService = this.workspaces.forIdentifier(match.identifier) ?? this.workspaces.default;
+        linearService.findIssue(match.identifier).then(issue => openComment(linearService, issue), error => {
+            log(this.settings, `Failed to load ${match.identifier} for commenting`, error, true);
+            new Notice(`Failed to load ${match.identifier} from Linear`);
+        });
+    }
+
+    private draftFromNote(selection: string, content: string, file: TFile | null): IssueDraft {
+        if (selection.trim()) {
+            const [firstLine, ...rest] = selection.trim().split('\n');
+            return {
+                title: firstLine.replace(/^\s*(?:#+|[-*+]|\d+\.)\s+(?:\[.\]\s+)?/, '').trim(),
+                description: rest.join('\n').trim()
+            };
+        }
+        return {
+            title: file?.basename ?? '',
+            description: content.slice(getFrontMatterInfo(content).contentStart).trim()
+        };
+    }
+
+    /**
+     * How a created issue is written into the note. Issues from a workspace other
+     * than the default one name it, so blocks load them from the right workspace.
+     */
+    private issueReference(issue: LinearIssue, linearService: LinearService, insertAs: IssueInsertMode, listPrefix: string): string | null {
+        const otherWorkspace = linearService !== this.workspaces.default ? linearService.workspaceName : null;
+        switch (insertAs) {
+            case 'link':
+                return `${listPrefix}[${issue.identifier}: ${issue.title}${otherWorkspace ? ` (${otherWorkspace})` : ''}](${issue.url})`;
+            case 'block':
+                return '```linear\nid: ' + issue.identifier + '\n'
+                    + (otherWorkspace ? stringifyYaml({ workspace: otherWorkspace }) : '')
+                    + '```\n';
+            case 'none':
+                return null;
+        }
     }
 
     onunload() {
-        this.log('Plugin unloaded');
+        // The sync timer is replaced whenever settings change, so it is cleared here rather than registered
+        if (this.syncTimer !== null) window.clearInterval(this.syncTimer);
+        this.requestRerender.cancel();
+        this.requestSave.cancel();
+        this.persistData();
+        log(this.settings, 'Plugin unloaded');
     }
 
     async loadSettings() {
-        this.settings = Object.assign({}, DEFAULT_SETTINGS, await this.loadData());
-        this.log('Settings loaded', this.settings);
+        const { cache, sync, apiKey, ...settings } = (await this.loadData()) ?? {};
+        this.settings = Object.assign({}, DEFAULT_SETTINGS, settings);
+
+        // Earlier versions had a single API key and cache instead of workspace profiles
+        if (!this.settings.workspaces.length) {
+            this.settings.workspaces = [{ id: 'default', name: 'Default', apiKey: apiKey ?? '', defaultTeam: '' }];
+            this.settings.defaultWorkspace = 'default';
+        }
+        const caches = cache && 'issues' in cache ? { [this.settings.workspaces[0].id]: cache } : cache ?? {};
+
+        // Earlier versions also kept API keys in the data file, move them out of it
+        this.credentials = new CredentialStore(this.app.vault.getName());
+        const plainKeys = this.settings.workspaces.some(profile => profile.apiKey);
+        for (const profile of this.settings.workspaces) {
+            this.credentials.load(profile);
+        }
+
+        this.auth = new LinearAuth(this.settings, () => this.requestSave());
+        this.workspaces = new LinearWorkspaces(this.settings, caches, this.auth, () => this.requestSave());
+        this.syncState = sync ?? {};
+        if (plainKeys) {
+            await this.persistData();
+        }
+        log(this.settings, 'Settings loaded', withoutCredentials(this.settings));
     }
 
+    /**
+     * Saves settings and applies them: workspaces whose API key changed get a
+     * new client and an empty cache, issue chips match the workspaces' team
+     * keys, and rendered blocks are drawn again.
+     */
     async saveSettings() {
-        await this.saveData(this.settings);
-        this.log('Settings saved', this.settings);
+        this.workspaces.update();
+        this.requestChipReload();
+        await this.persistData();
+        this.requestRerender();
+        log(this.settings, 'Settings saved', withoutCredentials(this.settings));
+    }
+
+    // Settings, the query cache and the sync records share the plugin's data file, credentials stay on this device
+    private async persistData() {
+        this.credentials.save(this.settings.workspaces);
+        await this.saveData({ ...withoutCredentials(this.settings), cache: this.workspaces.toJSON(), sync: this.syncState });
+    }
+
+    private async completeSignIn(params: ObsidianProtocolData) {
+        try {
+            const profile = await this.auth.completeSignIn(params);
+            this.workspaces.signedIn(profile);
+            await this.saveSettings();
+            new Notice(`Signed in to Linear for workspace "${profile.name}"`);
+            // Show the new state if settings are still open
+            if (this.settingsTab.containerEl.isShown()) this.settingsTab.display();
+        } catch (error) {
+            log(this.settings, 'Linear sign-in failed', error, true);
+            new Notice(`Linear sign-in failed: ${error instanceof Error ? error.message : String(error)}`);
+        }
     }
-} 
\ No newline at end of file
+}
@@ -0,0 +1,80 @@
+import { App, Modal, Notice, Setting } from "obsidian";
+import { LinearPluginSettings } from '../settings';
+
+/**
+ * Appends a link back to a note to a comment body, so readers in Linear can
+ * open the note the comment was written from.
+ */
+export function appendNoteLink(app: App, body: string, sourcePath: string): string {
+    const file = app.vault.getFileByPath(sourcePath);
+    if (!file) return body;
+
+    const uri = `obsidian://open?vault=${encodeURIComponent(app.vault.getName())}&file=${encodeURIComponent(file.path)}`;
+    return `${body.trimEnd()}\n\nFrom [${file.basename}](${uri})`;
+}
+
+/**
+ * Asks for the Markdown of a comment on an issue, pre-filled with the
+ * selection. Submits the body and whether to link back to the note.
+ */
+export class CommentModal extends Modal {
+    private body: string;
+    private linkNote: boolean;
+
+    constructor(
+        app: App,
+        settings: LinearPluginSettings,
+        private issueLabel: string,
+        body: string,
+        private onSubmit: (body: string, linkNote: boolean) => Promise<void> | void
+    ) {
+        super(app);
+        this.body = body;
+        this.linkNote = settings.commentNoteLink;
+    }
+
+    onOpen() {
+        const { contentEl } = this;
+        this.titleEl.setText(`Comment on ${this.issueLabel}`);
+
+        new Setting(contentEl)
+            .setClass('linear-comment-field')
+            .addTextArea(text => {
+                text.inputEl.rows = 8;
+                text.setPlaceholder('Write a comment in Markdown...')
+                    .setValue(this.body)
+                    .onChange(value => this.body = value);
+                window.setTimeout(() => text.inputEl.focus());
+            });
+
+        new Setting(contentEl)
+            .setName('Link to this note')
+            .addToggle(toggle => toggle
+                .setValue(this.linkNote)
+                .onChange(value => this.linkNote = value));
+
+        new Setting(contentEl)
+            .addButton(button => button
+                .setButtonText('Comment')
+                .setCta()
+                .onClick(async () => {
+                    if (!this.body.trim()) {
+                        new Notice('Write a comment first');
+                        return;
+                    }
+                    button.setDisabled(true);
+                    try {
+                        await this.onSubmit(this.body, this.linkNote);
+                        this.close();
+                    } catch {
+                        // Reported by the caller; stay open so the text isn't lost
+                    } finally {
+                        button.setDisabled(false);
+                    }
+                }));
+    }
+
+    onClose() {
+        this.contentEl.empty();
+    }
+}
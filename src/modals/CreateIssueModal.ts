@@ -0,0 +1,285 @@
+import { App, Modal, Notice, Setting } from "obsidian";
+import { LinearDocument } from "@linear/sdk";
+import {
+    LinearService,
+    LinearIssue,
+    TeamNode,
+    UserNode,
+    LabelNode,
+    ProjectNode,
+    WorkflowStateNode,
+    STATE_TYPE_ORDER
+} from "../services/LinearService";
+import { LinearWorkspaces } from "../services/LinearWorkspaces";
+import { LinearPluginSettings, IssueInsertMode } from '../settings';
+import { log } from '../log';
+import { priorityLabel } from '../renderers/display';
+
+export interface IssueDraft {
+    title: string;
+    description: string;
+}
+
+// "No priority" first, as the default
+const PRIORITY_CHOICES = [0, 1, 2, 3, 4];
+
+/**
+ * Form for a new issue. Teams, states, users, labels and projects come from the
+ * service's cache, so the form opens quickly after the first use. Calls
+ * `onCreate` with the new issue, the workspace it was created in and how it
+ * should be inserted into the note.
+ * With several workspaces configured the form starts in the default one.
+ */
+export class CreateIssueModal extends Modal {
+    private teams: TeamNode[] = [];
+    private states: WorkflowStateNode[] = [];
+    private users: UserNode[] = [];
+    private labels: LabelNode[] = [];
+    private projects: ProjectNode[] = [];
+
+    private teamId = '';
+    private stateId = '';
+    private assigneeId = '';
+    private labelIds = new Set<string>();
+    private priority = 0;
+    private projectId = '';
+    private insertAs: IssueInsertMode;
+
+    private teamFieldsEl: HTMLElement;
+    private linearService: LinearService;
+
+    constructor(
+        app: App,
+        private settings: LinearPluginSettings,
+        private workspaces: LinearWorkspaces,
+        private draft: IssueDraft,
+        private onCreate: (issue: LinearIssue, linearService: LinearService, insertAs: IssueInsertMode) => void
+    ) {
+        super(app);
+        this.insertAs = settings.insertIssueAs;
+        this.linearService = workspaces.default.isConfigured ? workspaces.default : workspaces.configured[0];
+    }
+
+    async onOpen() {
+        this.titleEl.setText('Create Linear issue');
+        this.contentEl.addClass('linear-create-issue');
+        await this.loadWorkspace();
+    }
+
+    /**
+     * Loads the teams and other choices of the current workspace and redraws
+     * the form, dropping choices made in another workspace.
+     */
+    private async loadWorkspace() {
+        this.contentEl.empty();
+        this.contentEl.createEl('p', { text: 'Loading teams...' });
+        this.stateId = '';
+        this.assigneeId = '';
+        this.labelIds.clear();
+        this.projectId = '';
+
+        try {
+            [this.teams, this.states, this.users, this.labels, this.projects] = await Promise.all([
+                this.linearService.getTeams(),
+                this.linearService.getWorkflowStates(),
+                this.linearService.getUsers(),
+                this.linearService.getLabels(),
+                this.linearService.getProjects()
+            ]);
+        } catch (error) {
+            log(this.settings, 'Failed to load data for new issue', error, true);
+            new Notice(`Failed to load teams from Linear workspace "${this.linearService.workspaceName}"`);
+            this.close();
+            return;
+        }
+
+        if (!this.teams.length) {
+            new Notice('No Linear teams available');
+            this.close();
+            return;
+        }
+        const defaultTeam = this.linearService.profile.defaultTeam.trim().toLowerCase();
+        const team = this.teams.find(team => team.name.toLowerCase() === defaultTeam || team.key.toLowerCase() === defaultTeam);
+        this.teamId = (team ?? this.teams[0]).id;
+        this.renderForm();
+    }
+
+    private renderForm() {
+        const { contentEl } = this;
+        contentEl.empty();
+
+        if (this.workspaces.configured.length > 1) {
+            new Setting(contentEl)
+                .setName('Workspace')
+                .addDropdown(dropdown => {
+                    for (const service of this.workspaces.configured) {
+                        dropdown.addOption(service.profile.id, service.workspaceName);
+                    }
+                    dropdown.setValue(this.linearService.profile.id).onChange(async value => {
+                        this.linearService = this.workspaces.configured.find(service => service.profile.id === value)!;
+                        await this.loadWorkspace();
+                    });
+                });
+        }
+
+        new Setting(contentEl)
+            .setName('Team')
+            .addDropdown(dropdown => {
+                for (const team of this.teams) {
+                    dropdown.addOption(team.id, `${team.name} (${team.key})`);
+                }
+                dropdown.setValue(this.teamId).onChange(value => {
+                    this.teamId = value;
+                    // States and team labels differ between teams
+                    this.stateId = '';
+                    this.labelIds.clear();
+                    this.renderTeamFields();
+                });
+            });
+
+        new Setting(contentEl)
+            .setName('Title')
+            .addText(text => {
+                text.setValue(this.draft.title).onChange(value => this.draft.title = value);
+                text.inputEl.addClass('linear-create-issue-title');
+                window.setTimeout(() => text.inputEl.focus());
+            });
+
+        new Setting(contentEl)
+            .setName('Description')
+            .setDesc('Markdown')
+            .addTextArea(textArea => {
+                textArea.setValue(this.draft.description).onChange(value => this.draft.description = value);
+                textArea.inputEl.addClass('linear-create-issue-description');
+                textArea.inputEl.rows = 8;
+            });
+
+        this.teamFieldsEl = contentEl.createDiv();
+        this.renderTeamFields();
+
+        new Setting(contentEl)
+            .setName('Assignee')
+            .addDropdown(dropdown => {
+                dropdown.addOption('', 'Unassigned');
+                for (const user of this.users) {
+                    dropdown.addOption(user.id, user.name);
+                }
+                dropdown.setValue(this.assigneeId).onChange(value => this.assigneeId = value);
+            });
+
+        new Setting(contentEl)
+            .setName('Priority')
+            .addDropdown(dropdown => {
+                for (const priority of PRIORITY_CHOICES) {
+                    dropdown.addOption(String(priority), priorityLabel(priority));
+                }
+                dropdown.setValue(String(this.priority)).onChange(value => this.priority = Number(value));
+            });
+
+        new Setting(contentEl)
+            .setName('Project')
+            .addDropdown(dropdown => {
+                dropdown.addOption('', 'No project');
+                for (const project of this.projects) {
+                    dropdown.addOption(project.id, project.name);
+                }
+                dropdown.setValue(this.projectId).onChange(value => this.projectId = value);
+            });
+
+        new Setting(contentEl)
+            .setName('Insert into note as')
+            .addDropdown(dropdown => dropdown
+                .addOption('link', 'Link')
+                .addOption('block', 'Linear block')
+                .addOption('none', 'Nothing')
+                .setValue(this.insertAs)
+                .onChange(value => this.insertAs = value as IssueInsertMode));
+
+        new Setting(contentEl)
+            .addButton(button => button
+                .setButtonText('Create issue')
+                .setCta()
+                .onClick(async () => {
+                    button.setDisabled(true);
+                    await this.submit();
+                    button.setDisabled(false);
+                }));
+    }
+
+    /**
+     * State and labels depend on the chosen team, so they are redrawn when it changes.
+     */
+    private renderTeamFields() {
+        const fieldsEl = this.teamFieldsEl;
+        fieldsEl.empty();
+
+        const states = this.states
+            .filter(state => state.team?.id === this.teamId)
+            .sort((a, b) =>
+                STATE_TYPE_ORDER.indexOf(a.type) - STATE_TYPE_ORDER.indexOf(b.type) || a.position - b.position
+            );
+        new Setting(fieldsEl)
+            .setName('Status')
+            .addDropdown(dropdown => {
+                dropdown.addOption('', "Team's default");
+                for (const state of states) {
+                    dropdown.addOption(state.id, state.name);
+                }
+                dropdown.setValue(this.stateId).onChange(value => this.stateId = value);
+            });
+
+        const labels = this.labels
+            .filter(label => !label.teamId || label.teamId === this.teamId)
+            .sort((a, b) => a.name.localeCompare(b.name));
+        if (!labels.length) return;
+
+        const labelSetting = new Setting(fieldsEl).setName('Labels');
+        const pickerEl = labelSetting.controlEl.createDiv({ cls: 'linear-label-picker' });
+        for (const label of labels) {
+            const chipEl = pickerEl.createSpan({ cls: 'linear-issue-label', text: label.name });
+            chipEl.style.setProperty('--linear-label-color', label.color);
+            chipEl.toggleClass('is-selected', this.labelIds.has(label.id));
+            chipEl.addEventListener('click', () => {
+                if (this.labelIds.has(label.id)) {
+                    this.labelIds.delete(label.id);
+                } else {
+                    this.labelIds.add(label.id);
+                }
+                chipEl.toggleClass('is-selected', this.labelIds.has(label.id));
+            });
+        }
+    }
+
+    private async submit() {
+        const title = this.draft.title.trim();
+        if (!title) {
+            new Notice('A Linear issue needs a title');
+            return;
+        }
+
+        const input: LinearDocument.IssueCreateInput = {
+            teamId: this.teamId,
+            title,
+            description: this.draft.description.trim() || undefined,
+            stateId: this.stateId || undefined,
+            assigneeId: this.assigneeId || undefined,
+            labelIds: this.labelIds.size ? Array.from(this.labelIds) : undefined,
+            priority: this.priority || undefined,
+            projectId: this.projectId || undefined
+        };
+
+        try {
+            const issue = await this.linearService.createIssue(input);
+            new Notice(`Created ${issue.identifier}`);
+            this.close();
+            this.onCreate(issue, this.linearService, this.insertAs);
+        } catch (error) {
+            log(this.settings, 'Failed to create issue', error, true);
+            new Notice(`Failed to create issue: ${error instanceof Error ? error.message : String(error)}`);
+        }
+    }
+
+    onClose() {
+        this.contentEl.empty();
+    }
+}
@@ -0,0 +1,48 @@
+import { App, Modal, Setting } from "obsidian";
+
+/**
+ * Asks for a due date with the native date picker. Chooses a `YYYY-MM-DD`
+ * string, or `null` when the date is cleared.
+ */
+export class DueDateModal extends Modal {
+    constructor(app: App, private current: string | undefined, private onChoose: (dueDate: string | null) => void) {
+        super(app);
+    }
+
+    onOpen() {
+        const { contentEl } = this;
+        this.titleEl.setText('Set due date');
+
+        const input = contentEl.createEl('input', { type: 'date', cls: 'linear-due-date-input' });
+        input.value = this.current?.slice(0, 10) ?? '';
+        input.addEventListener('keydown', evt => {
+            if (evt.key === 'Enter' && input.value) {
+                evt.preventDefault();
+                this.choose(input.value);
+            }
+        });
+
+        new Setting(contentEl)
+            .addButton(button => button
+                .setButtonText('Clear')
+                .setDisabled(!this.current)
+                .onClick(() => this.choose(null)))
+            .addButton(button => button
+                .setButtonText('Save')
+                .setCta()
+                .onClick(() => {
+                    if (input.value) this.choose(input.value);
+                }));
+
+        input.focus();
+    }
+
+    private choose(dueDate: string | null) {
+        this.close();
+        this.onChoose(dueDate);
+    }
+
+    onClose() {
+        this.contentEl.empty();
+    }
+}
@@ -0,0 +1,24 @@
+import { App, FuzzySuggestModal } from "obsidian";
+import { ExportFormat, EXPORT_FORMATS } from "../export/IssueExporter";
+
+/**
+ * Picks how a block's issues are exported.
+ */
+export class ExportFormatModal extends FuzzySuggestModal<ExportFormat> {
+    constructor(app: App, private onChoose: (format: ExportFormat) => void) {
+        super(app);
+        this.setPlaceholder('Export issues as...');
+    }
+
+    getItems(): ExportFormat[] {
+        return Object.keys(EXPORT_FORMATS) as ExportFormat[];
+    }
+
+    getItemText(format: ExportFormat): string {
+        return EXPORT_FORMATS[format];
+    }
+
+    onChooseItem(format: ExportFormat) {
+        this.onChoose(format);
+    }
+}
@@ -0,0 +1,38 @@
+import { App, SuggestModal } from "obsidian";
+import { LinearService, IssueSummary } from "../services/LinearService";
+import { LinearPluginSettings } from '../settings';
+import { log } from '../log';
+import { renderIssueSuggestion } from '../suggest/IssueSuggest';
+
+/**
+ * Picker over a workspace's issues, searched by identifier, title and
+ * description. Shows the most recently updated issues before anything is typed.
+ */
+export class IssueSearchModal extends SuggestModal<IssueSummary> {
+    constructor(
+        app: App,
+        private settings: LinearPluginSettings,
+        private linearService: LinearService,
+        private onChoose: (issue: IssueSummary) => void
+    ) {
+        super(app);
+        this.setPlaceholder('Search Linear issues...');
+    }
+
+    async getSuggestions(query: string): Promise<IssueSummary[]> {
+        try {
+            return await this.linearService.searchIssues(query);
+        } catch (error) {
+            log(this.settings, 'Failed to search issues', error, true);
+            return [];
+        }
+    }
+
+    renderSuggestion(issue: IssueSummary, el: HTMLElement) {
+        renderIssueSuggestion(issue, el);
+    }
+
+    onChooseSuggestion(issue: IssueSummary) {
+        this.onChoose(issue);
+    }
+}
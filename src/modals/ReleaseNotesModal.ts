@@ -0,0 +1,203 @@
+import { App, Modal, Notice, Setting } from "obsidian";
+import { LinearService, TeamNode, ProjectNode, CycleNode, CompletedIssuesScope } from "../services/LinearService";
+import { LinearWorkspaces } from "../services/LinearWorkspaces";
+import { LinearPluginSettings } from '../settings';
+import { log } from '../log';
+import { ReleaseNotesRequest, ReleaseNotesGrouping } from '../export/ReleaseNotes';
+
+type ScopeKind = 'team' | 'project' | 'cycle';
+
+// Days covered by the default date range, ending today
+const DEFAULT_RANGE_DAYS = 14;
+
+function localDate(date: Date): string {
+    const month = String(date.getMonth() + 1).padStart(2, '0');
+    const day = String(date.getDate()).padStart(2, '0');
+    return `${date.getFullYear()}-${month}-${day}`;
+}
+
+/**
+ * Asks for the team, project or cycle and the date range to write release
+ * notes for. Picking a cycle sets the range to the cycle's dates.
+ */
+export class ReleaseNotesModal extends Modal {
+    private teams: TeamNode[] = [];
+    private projects: ProjectNode[] = [];
+    private cycles: CycleNode[] = [];
+
+    private kind: ScopeKind = 'team';
+    private scopeId = '';
+    private from: string;
+    private to: string;
+    private groupBy: ReleaseNotesGrouping;
+    private linearService: LinearService;
+
+    constructor(
+        app: App,
+        private settings: LinearPluginSettings,
+        private workspaces: LinearWorkspaces,
+        private onSubmit: (linearService: LinearService, request: ReleaseNotesRequest) => void
+    ) {
+        super(app);
+        const today = new Date();
+        const start = new Date(today);
+        start.setDate(start.getDate() - DEFAULT_RANGE_DAYS);
+        this.from = localDate(start);
+        this.to = localDate(today);
+        this.groupBy = settings.releaseNotesGroupBy;
+        this.linearService = workspaces.default.isConfigured ? workspaces.default : workspaces.configured[0];
+    }
+
+    async onOpen() {
+        this.titleEl.setText('Generate release notes');
+        await this.loadWorkspace();
+    }
+
+    private async loadWorkspace() {
+        this.contentEl.empty();
+        this.contentEl.createEl('p', { text: 'Loading teams...' });
+
+        try {
+            [this.teams, this.projects, this.cycles] = await Promise.all([
+                this.linearService.getTeams(),
+                this.linearService.getProjects(),
+                this.linearService.getCycles()
+            ]);
+        } catch (error) {
+            log(this.settings, 'Failed to load data for release notes', error, true);
+            new Notice(`Failed to load teams from Linear workspace "${this.linearService.workspaceName}"`);
+            this.close();
+            return;
+        }
+
+        // Cycles that haven't started have nothing completed yet
+        const now = new Date().toISOString();
+        this.cycles = this.cycles.filter(cycle => cycle.startsAt <= now);
+
+        const defaultTeam = this.linearService.profile.defaultTeam.trim().toLowerCase();
+        const team = this.teams.find(team => team.name.toLowerCase() === defaultTeam || team.key.toLowerCase() === defaultTeam);
+        this.kind = 'team';
+        this.scopeId = (team ?? this.teams[0])?.id ?? '';
+        this.renderForm();
+    }
+
+    private scopeChoices(): { id: string; name: string }[] {
+        switch (this.kind) {
+            case 'team':
+                return this.teams.map(team => ({ id: team.id, name: team.name }));
+            case 'project':
+                return this.projects.map(project => ({ id: project.id, name: project.name }));
+            case 'cycle':
+                return this.cycles.map(cycle => {
+                    const team = this.teams.find(team => team.id === cycle.teamId);
+                    const name = `${team ? `${team.name} ` : ''}cycle ${cycle.number}`;
+                    return { id: cycle.id, name: cycle.name ? `${name} (${cycle.name})` : name };
+                });
+        }
+    }
+
+    private selectScope(id: string) {
+        this.scopeId = id;
+        const cycle = this.kind === 'cycle' ? this.cycles.find(cycle => cycle.id === id) : undefined;
+        if (cycle) {
+            this.from = localDate(new Date(cycle.startsAt));
+            this.to = localDate(new Date(cycle.endsAt));
+        }
+    }
+
+    private renderForm() {
+        const { contentEl } = this;
+        contentEl.empty();
+
+        if (this.workspaces.configured.length > 1) {
+            new Setting(contentEl)
+                .setName('Workspace')
+                .addDropdown(dropdown => {
+                    for (const service of this.workspaces.configured) {
+                        dropdown.addOption(service.profile.id, service.workspaceName);
+                    }
+                    dropdown.setValue(this.linearService.profile.id).onChange(async value => {
+                        this.linearService = this.workspaces.configured.find(service => service.profile.id === value)!;
+                        await this.loadWorkspace();
+                    });
+                });
+        }
+
+        new Setting(contentEl)
+            .setName('Issues from')
+            .addDropdown(dropdown => dropdown
+                .addOption('team', 'Team')
+                .addOption('project', 'Project')
+                .addOption('cycle', 'Cycle')
+                .setValue(this.kind)
+                .onChange(value => {
+                    this.kind = value as ScopeKind;
+                    this.selectScope(this.scopeChoices()[0]?.id ?? '');
+                    this.renderForm();
+                }))
+            .addDropdown(dropdown => {
+                for (const choice of this.scopeChoices()) {
+                    dropdown.addOption(choice.id, choice.name);
+                }
+                dropdown.setValue(this.scopeId).onChange(value => {
+                    this.selectScope(value);
+                    // A cycle changes the dates shown below
+                    if (this.kind === 'cycle') this.renderForm();
+                });
+            });
+
+        new Setting(contentEl)
+            .setName('Completed between')
+            .addText(text => {
+                text.inputEl.type = 'date';
+                text.setValue(this.from).onChange(value => this.from = value);
+            })
+            .addText(text => {
+                text.inputEl.type = 'date';
+                text.setValue(this.to).onChange(value => this.to = value);
+            });
+
+        new Setting(contentEl)
+            .setName('Group by')
+            .addDropdown(dropdown => dropdown
+                .addOption('label', 'Label')
+                .addOption('project', 'Project')
+                .addOption('none', "Don't group")
+                .setValue(this.groupBy)
+                .onChange(value => this.groupBy = value as ReleaseNotesGrouping));
+
+        new Setting(contentEl)
+            .addButton(button => button
+                .setButtonText('Generate')
+                .setCta()
+                .onClick(() => this.submit()));
+    }
+
+    private submit() {
+        const choice = this.scopeChoices().find(choice => choice.id === this.scopeId);
+        if (!choice) {
+            new Notice(`Choose a ${this.kind} first`);
+            return;
+        }
+        if (!this.from || !this.to || this.from > this.to) {
+            new Notice('Choose a start date on or before the end date');
+            return;
+        }
+
+        const scope: CompletedIssuesScope = this.kind === 'team' ? { teamId: this.scopeId }
+            : this.kind === 'project' ? { projectId: this.scopeId }
+            : { cycleId: this.scopeId };
+        this.close();
+        this.onSubmit(this.linearService, {
+            scope,
+            scopeName: choice.name,
+            from: this.from,
+            to: this.to,
+            groupBy: this.groupBy
+        });
+    }
+
+    onClose() {
+        this.contentEl.empty();
+    }
+}
@@ -0,0 +1,28 @@
+import { App, FuzzySuggestModal } from "obsidian";
+import { UserNode } from "../services/LinearService";
+
+// Stands in for "no assignee" in the list
+const UNASSIGNED = { id: '', name: 'Unassigned', email: '' };
+
+/**
+ * Fuzzy picker over workspace members, with an "Unassigned" entry first.
+ * Chooses `null` for "Unassigned".
+ */
+export class UserSuggestModal extends FuzzySuggestModal<UserNode> {
+    constructor(app: App, private users: UserNode[], private onChoose: (user: UserNode | null) => void) {
+        super(app);
+        this.setPlaceholder('Assign to...');
+    }
+
+    getItems(): UserNode[] {
+        return [UNASSIGNED, ...this.users];
+    }
+
+    getItemText(user: UserNode): string {
+        return user.email ? `${user.name} (${user.email})` : user.name;
+    }
+
+    onChooseItem(user: UserNode) {
+        this.onChoose(user === UNASSIGNED ? null : user);
+    }
+}
@@ -0,0 +1,49 @@
+import { MarkdownPostProcessorContext } from "obsidian";
+import { IssueChipRenderer } from '../renderers/IssueChipRenderer';
+
+// Rendered elements whose text is never turned into chips
+const SKIPPED_ELEMENTS = 'code, pre, a, .linear-chip, .linear-issues-container, .frontmatter';
+
+/**
+ * Reading mode counterpart of the live preview chip extension: replaces issue
+ * identifiers in rendered text with chips.
+ */
+export class IssueReferenceProcessor {
+    constructor(private chips: IssueChipRenderer) {}
+
+    async process(el: HTMLElement, ctx: MarkdownPostProcessorContext) {
+        if (!this.chips.enabled) {
+            await this.chips.ready;
+            if (!this.chips.enabled) return;
+        }
+
+        const walker = document.createTreeWalker(el, NodeFilter.SHOW_TEXT);
+        const textNodes: Text[] = [];
+        let node: Node | null;
+        while ((node = walker.nextNode()) !== null) {
+            if (!node.parentElement?.closest(SKIPPED_ELEMENTS)) {
+                textNodes.push(node as Text);
+            }
+        }
+
+        for (const textNode of textNodes) {
+            this.replaceIdentifiers(textNode, ctx.sourcePath);
+        }
+    }
+
+    private replaceIdentifiers(textNode: Text, sourcePath: string) {
+        const text = textNode.data;
+        const matches = this.chips.findIdentifiers(text);
+        if (!matches.length) return;
+
+        const fragment = document.createDocumentFragment();
+        let position = 0;
+        for (const match of matches) {
+            fragment.appendText(text.slice(position, match.from));
+            fragment.append(this.chips.createChip(match.identifier, sourcePath));
+            position = match.to;
+        }
+        fragment.appendText(text.slice(position));
+        textNode.replaceWith(fragment);
+    }
+}
@@ -1,229 +1,456 @@
-import { MarkdownPostProcessorContext, MarkdownRenderer, MarkdownRenderChild, App } from "obsidian";
-import { LinearService, IssueOptions } from "../services/LinearService";
-import type { Issue, WorkflowState } from "@linear/sdk";
+import { MarkdownPostProcessorContext, MarkdownRenderChild, App, Menu, Notice, TFile, setIcon } from "obsidian";
+import { LinearService, IssueOptions, IssuePage, LinearIssue } from "../services/LinearService";
+import { CacheEntry } from "../services/LinearCache";
+import { LinearErrorKind, LinearServiceError, toServiceError } from "../services/LinearServiceError";
+import { LinearWorkspaces } from "../services/LinearWorkspaces";
 import { LinearPluginSettings } from '../settings';
-import { parseYaml } from 'obsidian';
+import { log } from '../log';
+import { describeFilterValue } from '../query/filters';
+import { OptionDiagnostic, closestMatch } from '../query/schema';
+import { describeSorting } from '../query/sorting';
+import { parseBlockOptions, ParsedBlock } from '../query/options';
+import { queryVariables } from '../query/variables';
+import { IssueRenderer } from '../renderers/IssueRenderer';
+import { DisplayOptions } from '../renderers/display';
+import { IssueExporter, ExportFormat, EXPORT_FORMATS, insertAfterLine } from '../export/IssueExporter';
 
+// Plugin ID from manifest.json, for opening its settings tab
+const PLUGIN_ID = 'linear';
+
+// What a block suggests doing about each kind of failure
+const ERROR_ADVICE: Record<LinearErrorKind, string> = {
+    'unauthorized': 'Open settings to enter an API key or sign in.',
+    'offline': 'Check your connection and retry.',
+    'rate-limited': 'Blocks load again once the limit resets.',
+    'not-found': 'Check the names and IDs in the block.',
+    'invalid-filter': 'Check the block\'s options.',
+    'server': 'Retry in a moment.'
+};
+
+/**
+ * Renders one `linear` block and keeps it up to date: the block can be
+ * refreshed from its footer, on the interval given by its `refresh` option,
+ * or by the plugin after a command or a change of settings. Outside a note,
+ * as in the sidebar, there is no context and exports go to the clipboard.
+ */
 export class LinearProcessor extends MarkdownRenderChild {
+    private renderer: IssueRenderer;
+    // The workspace named by the block, or the default one
     private linearService: LinearService;
+    private source = '';
+    private el: HTMLDivElement;
+    private ctx: MarkdownPostProcessorContext | null = null;
+    private sourcePath = '';
+    private refreshing = false;
+    private refreshTimer: number | null = null;
+    private refreshInterval: number | null = null; // ms, of the running timer
+    // The variables the block was last rendered with, to tell when its note's frontmatter changed them
+    private noteVariables = '';
 
-    constructor(private settings: LinearPluginSettings, containerEl: HTMLElement, private app: App) {
+    constructor(
+        private settings: LinearPluginSettings,
+        containerEl: HTMLElement,
+        private app: App,
+        private workspaces: LinearWorkspaces
+    ) {
         super(containerEl);
-        this.linearService = new LinearService(settings);
     }
 
-    private log(message: string, data?: any, isError: boolean = false) {
-        if (!this.settings.debugMode) return;
-        
-        const prefix = '🔄 Linear Plugin: ';
-        if (isError) {
-            console.error(prefix + message, data);
-        } else {
-            console.log(prefix + message, data || '');
+    private parseOptions(source: string): ParsedBlock {
+        const variables = queryVariables(this.app, this.sourcePath);
+        this.noteVariables = JSON.stringify(variables);
+        const block = parseBlockOptions(source, this.settings.savedQueries, variables);
+
+        // Workspace names come from settings, so they are checked here rather than by the schema
+        const workspace = block.parsed.workspace;
+        if (typeof workspace === 'string' && !this.workspaces.find(workspace)) {
+            const names = this.workspaces.all.map(service => service.workspaceName);
+            const suggestion = closestMatch(workspace, names);
+            block.diagnostics.push({
+                key: 'workspace',
+                message: `Unknown workspace "${workspace}"`,
+                expected: `one of ${names.join(', ')}`,
+                suggestion: suggestion ? `workspace: ${suggestion}` : undefined
+            });
+        }
+
+        if (block.diagnostics.length) {
+            log(this.settings, 'Invalid block options:', block.diagnostics);
         }
+        log(this.settings, 'Final parsed options:', { options: block.options, display: block.display });
+        return block;
     }
 
-    private parseOptions(source: string): IssueOptions {
-        const options: IssueOptions = {};
-        
-        try {
-            // Use parseYaml to parse the source
-            const parsed = parseYaml(source.trim());
-            this.log('Parsing options from YAML:', parsed);
-            
-            if (parsed && typeof parsed === 'object') {
-                if (parsed.limit && typeof parsed.limit === 'number' && parsed.limit > 0) {
-                    options.limit = parsed.limit;
-                }
-                
-                if (parsed.team && typeof parsed.team === 'string') {
-                    options.teamName = parsed.team;
-                }
-                
-                if (parsed.status && typeof parsed.status === 'string') {
-                    options.status = parsed.status;
-                }
-                
-                if (parsed.assignee && typeof parsed.assignee === 'string') {
-                    options.assigneeEmail = parsed.assignee;
-                }
-                
-                if (parsed.sorting && typeof parsed.sorting === 'string') {
-                    const sortValue = parsed.sorting.toLowerCase();
-                    if (sortValue === 'date' || sortValue === 'datedescending') {
-                        options.sorting = {
-                            field: 'date',
-                            direction: 'desc'
-                        };
-                    } else if (sortValue === 'dateascending') {
-                        options.sorting = {
-                            field: 'date',
-                            direction: 'asc'
-                        };
-                    }
-                }
-                
-                if (parsed.hideDescription && parsed.hideDescription === true) {
-                    options.hideDescription = true;
-                }
+    /**
+     * Lists every problem with the block's options in place of the results, so a
+     * typo never silently widens the query.
+     */
+    private renderDiagnostics(el: HTMLElement, diagnostics: OptionDiagnostic[]) {
+        el.empty();
+        const diagnosticsEl = el.createDiv({ cls: 'linear-diagnostics' });
+        diagnosticsEl.createEl('p', {
+            cls: 'linear-diagnostics-title',
+            text: diagnostics.length === 1
+                ? 'This Linear block has a problem:'
+                : `This Linear block has ${diagnostics.length} problems:`
+        });
+
+        const listEl = diagnosticsEl.createEl('ul');
+        for (const diagnostic of diagnostics) {
+            const itemEl = listEl.createEl('li', { cls: 'linear-diagnostic' });
+            if (diagnostic.key) {
+                itemEl.createEl('code', { text: diagnostic.key });
+                itemEl.appendText(': ');
+            }
+            itemEl.appendText(diagnostic.message);
+            if (diagnostic.expected) {
+                itemEl.appendText(`. Expected ${diagnostic.expected}`);
+            }
+            itemEl.appendText('.');
+            if (diagnostic.suggestion) {
+                itemEl.appendText(' Did you mean ');
+                itemEl.createEl('code', { text: diagnostic.suggestion });
+                itemEl.appendText('?');
             }
-            
-            this.log('Final parsed options:', options);
-        } catch (error) {
-            // This is an actual error in parsing, so we'll log it as an error
-            this.log("Failed to parse Linear block options", error, true);
         }
-
-        return options;
     }
 
-    private async renderIssue(container: HTMLDivElement, issue: Issue, options: IssueOptions, ctx: MarkdownPostProcessorContext) {
-        this.log('Rendering issue:', {
-            id: issue.id,
-            identifier: issue.identifier,
-            title: issue.title,
-            dueDate: issue.dueDate,
-            formattedDueDate: issue.dueDate ? new Date(issue.dueDate).toLocaleDateString() : 'No due date'
+    /**
+     * Shows why the block couldn't be loaded, with a button to retry and, for
+     * credential problems, one to open settings. Issues already shown, as on a
+     * failed refresh, stay in place below the message.
+     */
+    private renderError(el: HTMLElement, error: unknown) {
+        const failure = toServiceError(error);
+        const keepIssues = !!el.querySelector('.linear-issues-container');
+        if (keepIssues) {
+            el.querySelector('.linear-error-state')?.remove();
+        } else {
+            el.empty();
+        }
+
+        const errorEl = createDiv({ cls: `linear-error-state is-${failure.kind}` });
+        el.prepend(errorEl);
+        errorEl.createEl('p', {
+            cls: 'linear-error-title',
+            text: keepIssues ? "Couldn't refresh Linear issues, showing the last loaded ones." : "Couldn't load Linear issues."
         });
+        const message = failure.message.replace(/[.!]?$/, '.');
+        errorEl.createEl('p', { text: `${message} ${ERROR_ADVICE[failure.kind]}` });
 
-        try {
-            const issueEl = container.createDiv({ cls: "linear-issue" });
-
-            // Create issue header with number and title
-            const headerEl = issueEl.createDiv({ cls: "linear-issue-header" });
-            const link = headerEl.createEl("a", {
-                cls: "linear-issue-title",
-                href: issue.url,
-                text: `${issue.identifier}: ${issue.title}`
+        const actionsEl = errorEl.createDiv({ cls: 'linear-error-actions' });
+        if (failure.kind === 'unauthorized') {
+            actionsEl.createEl('button', { text: 'Open settings' })
+                .addEventListener('click', () => this.openSettings());
+        }
+        actionsEl.createEl('button', { text: 'Retry' })
+            .addEventListener('click', () => this.refresh());
+    }
+
+    private openSettings() {
+        // Obsidian doesn't type its settings window
+        const { setting } = this.app as App & { setting: { open(): void; openTabById(id: string): void } };
+        setting.open();
+        setting.openTabById(PLUGIN_ID);
+    }
+
+    /**
+     * Adds the footer showing when the rendered data was fetched, with a button
+     * to fetch it again.
+     */
+    private renderFooter(el: HTMLElement, timestamp: number | null) {
+        const footerEl = el.createDiv({ cls: 'linear-block-footer' });
+        if (timestamp !== null) {
+            const stale = !this.linearService.isFresh({ timestamp });
+            footerEl.createSpan({
+                cls: `linear-cache-marker${stale ? ' is-stale' : ''}`,
+                text: `Last updated ${new Date(timestamp).toLocaleString()}`
             });
-            link.setAttribute("target", "_blank");
-
-            // Add metadata section for due date and other info
-            const metadataEl = issueEl.createDiv({ cls: "linear-issue-metadata" });
-
-            // Add due date if available
-            if (issue.dueDate) {
-                this.log('Processing due date:', issue.dueDate);
-                const dueDate = new Date(issue.dueDate);
-                const today = new Date();
-                today.setHours(0, 0, 0, 0);
-                const tomorrow = new Date(today);
-                tomorrow.setDate(tomorrow.getDate() + 1);
-                
-                let dueDateText = '';
-                let dueDateClass = '';
-                
-                if (dueDate.toDateString() === today.toDateString()) {
-                    dueDateText = '📅 Due Today';
-                    dueDateClass = 'due-today';
-                } else if (dueDate.toDateString() === tomorrow.toDateString()) {
-                    dueDateText = '📅 Due Tomorrow';
-                    dueDateClass = 'due-tomorrow';
-                } else if (dueDate < today) {
-                    dueDateText = `⚠️ Overdue: ${dueDate.toLocaleDateString()}`;
-                    dueDateClass = 'overdue';
-                } else {
-                    dueDateText = `📅 Due: ${dueDate.toLocaleDateString()}`;
-                    dueDateClass = 'upcoming';
-                }
+        }
 
-                this.log('Creating due date element:', {
-                    text: dueDateText,
-                    class: dueDateClass,
-                    originalDate: issue.dueDate,
-                    parsedDate: dueDate
-                });
+        const button = footerEl.createEl('button', {
+            cls: 'linear-refresh clickable-icon',
+            attr: { 'aria-label': 'Refresh from Linear' }
+        });
+        setIcon(button, 'refresh-cw');
+        button.toggleClass('is-loading', this.refreshing);
+        button.addEventListener('click', () => this.refresh());
 
-                metadataEl.createSpan({
-                    cls: `linear-issue-due-date ${dueDateClass}`,
-                    text: dueDateText
-                });
-            } else {
-                this.log('No due date for issue');
-                metadataEl.createSpan({
-                    cls: 'linear-issue-due-date no-date',
-                    text: '📅 No due date'
-                });
+        const exportButton = footerEl.createEl('button', {
+            cls: 'linear-export clickable-icon',
+            attr: { 'aria-label': 'Export issues' }
+        });
+        setIcon(exportButton, 'download');
+        exportButton.addEventListener('click', evt => {
+            const menu = new Menu();
+            for (const [format, name] of Object.entries(EXPORT_FORMATS)) {
+                menu.addItem(item => item
+                    .setTitle(name)
+                    .onClick(() => this.exportIssues(format as ExportFormat)));
             }
+            menu.showAtMouseEvent(evt);
+        });
+    }
 
-            // Add status if available
-            if (issue.state) {
-                const state = await issue.state;
-                headerEl.createSpan({
-                    cls: `linear-issue-status linear-status-${state.name.toLowerCase()}`,
-                    text: state.name
-                });
+    private async exportIssues(format: ExportFormat) {
+        const exporter = new IssueExporter(this.app, this.settings, this.workspaces);
+        await exporter.exportBlock(this.source, format, this.sourcePath, text => this.insertAfterBlock(text));
+    }
+
+    /**
+     * Writes `text` into the note below this block.
+     */
+    private async insertAfterBlock(text: string) {
+        if (!this.ctx) {
+            await navigator.clipboard.writeText(text);
+            new Notice('Copied Linear issues to the clipboard');
+            return;
+        }
+
+        // The code block processor was given this element's parent
+        const info = this.ctx.getSectionInfo(this.el.parentElement ?? this.el);
+        const file = this.app.vault.getAbstractFileByPath(this.sourcePath);
+        if (!info || !(file instanceof TFile)) {
+            throw new Error("couldn't find the block in its note");
+        }
+        await this.app.vault.process(file, content => {
+            if (!/^\s*(```|~~~)/.test(content.split('\n')[info.lineEnd] ?? '')) {
+                throw new Error('the note changed since the block was shown, try again');
             }
+            return insertAfterLine(content, info.lineEnd, text);
+        });
+    }
 
-            // Add description if available and not hidden
-            if (!options.hideDescription && issue.description) {
-                this.log('Rendering description', { 
-                    hideDescription: options.hideDescription,
-                    hasDescription: !!issue.description,
-                    descriptionLength: issue.description?.length
-                });
-                const descriptionEl = issueEl.createDiv({ cls: "linear-issue-description" });
-                await MarkdownRenderer.render(
-                    this.app,
-                    issue.description,
-                    descriptionEl,
-                    ctx.sourcePath,
-                    this
-                );
-            } else {
-                this.log('Skipping description', {
-                    hideDescription: options.hideDescription,
-                    hasDescription: !!issue.description,
-                    reason: !issue.description ? 'no description' : 'hideDescription is true'
+    private oldestTimestamp(entries: (CacheEntry<unknown> | null)[]): number | null {
+        const timestamps = entries.filter((entry): entry is CacheEntry<unknown> => entry !== null).map(entry => entry.timestamp);
+        return timestamps.length ? Math.min(...timestamps) : null;
+    }
+
+    private async renderIssuesById(
+        el: HTMLDivElement,
+        ids: string[],
+        issues: (LinearIssue | null)[],
+        display: DisplayOptions,
+        cachedAt: number | null
+    ) {
+        el.empty();
+        const container = el.createDiv({ cls: "linear-issues-container" });
+        const found = issues.filter((issue): issue is LinearIssue => issue !== null);
+        await this.renderer.renderIssues(container, found, display);
+        ids.forEach((id, i) => {
+            if (!issues[i]) {
+                container.createDiv({
+                    cls: 'linear-error',
+                    text: `No Linear issue found for ID: ${id}`
                 });
             }
-        } catch (error) {
-            this.log('Failed to render issue', error, true);
-            container.createDiv({
-                cls: 'linear-error',
-                text: `Failed to render issue ${issue.identifier}`
-            });
+        });
+        if (!found.length) {
+            el.createEl("p", { text: `No Linear issues found for the provided IDs.` });
         }
+        this.renderFooter(el, cachedAt);
     }
 
-    async process(source: string, el: HTMLDivElement, ctx: MarkdownPostProcessorContext) {
-        this.log('Processing Linear block with source:', source);
+    private async renderIssueList(
+        el: HTMLDivElement,
+        page: IssuePage,
+        options: IssueOptions,
+        display: DisplayOptions,
+        cachedAt: number | null
+    ) {
         el.empty();
-        el.createEl("p", { text: "Loading Linear issues..." });
+        if (!page.issues.length) {
+            const messages: string[] = [];
+            for (const key of ['team', 'status', 'assignee', 'creator', 'label', 'project', 'cycle'] as const) {
+                const value = options[key];
+                if (value) messages.push(`${key} \"${describeFilterValue(value)}\"`);
+            }
+            if (options.sorting) messages.push(`sorted by ${describeSorting(options.sorting)}`);
 
-        try {
-            const options = this.parseOptions(source);
-            this.log('Parsed options:', options);
+            const message = messages.length 
+                ? `No issues found for ${messages.join(" and ")}` 
+                : "No issues found";
+            log(this.settings, 'No matching issues:', message);
+            el.createEl("p", { text: message });
+        } else {
+            const container = el.createDiv({ cls: "linear-issues-container" });
+            await this.renderPage(container, page.issues, page, options, display);
+        }
+        this.renderFooter(el, cachedAt);
+    }
+
+    /**
+     * Renders `issues` followed by a "Load more" button while the query has more
+     * results. Loading more re-renders the view with the combined issues, so
+     * tables and boards stay whole. Progress summaries get a note instead.
+     */
+    private async renderPage(
+        container: HTMLDivElement,
+        issues: LinearIssue[],
+        page: IssuePage,
+        options: IssueOptions,
+        display: DisplayOptions
+    ) {
+        container.empty();
+        await this.renderer.renderIssues(container, issues, display);
+        if (!page.hasNextPage || !page.endCursor) return;
+
+        // Progress loads its whole scope, so only the block's own limit leaves issues out
+        if (display.view === 'progress') {
+            container.createEl('p', {
+                cls: 'linear-progress-partial',
+                text: `Totals only cover the first ${issues.length} issues, raise or remove the block's limit to include the rest.`
+            });
+            return;
+        }
 
-            // Parse YAML once for all ID-related checks
-            let parsed: any = {};
+        const cursor = page.endCursor;
+        const button = container.createEl('button', {
+            cls: 'linear-load-more',
+            text: 'Load more'
+        });
+        const errorEl = container.createDiv({ cls: 'linear-error' });
+        button.addEventListener('click', async () => {
+            button.disabled = true;
+            button.setText('Loading...');
+            errorEl.empty();
+
+            let next: IssuePage;
             try {
-                parsed = parseYaml(source.trim());
-            } catch {}
+                next = await this.linearService.getMoreIssues(options, cursor);
+            } catch (error) {
+                log(this.settings, 'Failed to load more issues', error, true);
+                errorEl.setText(`Couldn't load more issues: ${toServiceError(error).message}`);
+                button.disabled = false;
+                button.setText('Load more');
+                return;
+            }
+            await this.renderPage(container, issues.concat(next.issues), next, options, display);
+        });
+    }
+
+    async process(source: string, el: HTMLDivElement, ctx: MarkdownPostProcessorContext | null) {
+        this.source = source;
+        this.el = el;
+        this.ctx = ctx;
+        this.sourcePath = ctx?.sourcePath ?? '';
+        if (ctx) {
+            this.registerEvent(this.app.metadataCache.on('changed', file => {
+                if (file.path !== this.sourcePath) return;
+                if (JSON.stringify(queryVariables(this.app, this.sourcePath)) !== this.noteVariables) {
+                    this.rerender();
+                }
+            }));
+        }
+        await this.render(false);
+    }
+
+    /**
+     * Fetches the block's issues from Linear, skipping the cache. The current
+     * content stays in place until the new data arrives.
+     */
+    async refresh() {
+        if (this.refreshing) return;
+        this.refreshing = true;
+        this.el.querySelector('.linear-refresh')?.addClass('is-loading');
+        try {
+            await this.render(true);
+        } finally {
+            this.refreshing = false;
+            this.el.querySelector('.linear-refresh')?.removeClass('is-loading');
+        }
+    }
+
+    /**
+     * Renders the block again with the current settings, using cached data where fresh.
+     */
+    async rerender() {
+        await this.render(false);
+    }
+
+    /**
+     * Refreshes the block every `interval` ms, or stops refreshing it when null.
+     * Options are parsed again on every render, and a saved query or the note's
+     * frontmatter may change the interval, which then replaces the timer.
+     */
+    private scheduleRefresh(interval: number | null) {
+        if (interval === this.refreshInterval) return;
+        if (this.refreshTimer !== null) {
+            window.clearInterval(this.refreshTimer);
+            this.refreshTimer = null;
+        }
+        this.refreshInterval = interval;
+        if (interval === null) return;
+
+        log(this.settings, `Refreshing block every ${interval / 1000}s`);
+        this.refreshTimer = window.setInterval(() => {
+            // Blocks in notes that aren't open or are scrolled out of a hidden tab can wait
+            if (this.el.isShown()) this.refresh();
+        }, interval);
+    }
+
+    onunload() {
+        // The timer is replaced when the interval changes, so it is cleared here rather than registered
+        if (this.refreshTimer !== null) {
+            window.clearInterval(this.refreshTimer);
+            this.refreshTimer = null;
+        }
+    }
+
+    private async render(force: boolean) {
+        const el = this.el;
+        log(this.settings, 'Processing Linear block with source:', this.source);
+        if (!force) {
+            el.empty();
+            el.createEl("p", { text: "Loading Linear issues..." });
+        }
+
+        try {
+            const { options, display, refreshInterval, parsed, diagnostics } = this.parseOptions(this.source);
+            log(this.settings, 'Parsed options:', options);
+            // A block with problems shows them until it is edited, so it has nothing to refresh
+            this.scheduleRefresh(diagnostics.length ? null : refreshInterval);
+
+            if (diagnostics.length) {
+                this.renderDiagnostics(el, diagnostics);
+                return;
+            }
+
+            this.linearService = this.workspaces.find(parsed.workspace)!;
+            if (!this.linearService.isConfigured) {
+                this.renderError(el, new LinearServiceError(
+                    'unauthorized',
+                    `The "${this.linearService.workspaceName}" workspace has no API key or sign-in`
+                ));
+                return;
+            }
+            this.renderer = new IssueRenderer(this.app, this.settings, this.linearService, this, this.sourcePath);
+
+            this.linearService.applyDefaultTeam(options);
 
             // Support fetching multiple issues by IDs
             const issueIds = parsed.ids && Array.isArray(parsed.ids) ? parsed.ids : null;
             if (issueIds && issueIds.length > 0) {
-                this.log('Fetching multiple issues by IDs:', issueIds);
-                el.empty();
-                const container = el.createDiv({ cls: "linear-issues-container" });
-                let found = false;
-                for (const id of issueIds) {
-                    if (typeof id !== 'string') continue;
-                    const issue = await this.linearService.getIssueById(id);
-                    if (issue) {
-                        found = true;
-                        await this.renderIssue(container, issue, options, ctx);
-                    } else {
-                        container.createDiv({
-                            cls: 'linear-error',
-                            text: `No Linear issue found for ID: ${id}`
-                        });
-                    }
+                const ids: string[] = issueIds.filter((id: unknown) => typeof id === 'string');
+                log(this.settings, 'Fetching multiple issues by IDs:', ids);
+
+                if (force) {
+                    const issues = await this.linearService.refreshIssuesByIds(ids);
+                    await this.renderIssuesById(el, ids, issues, display, Date.now());
+                    return;
                 }
-                if (!found) {
-                    el.createEl("p", { text: `No Linear issues found for the provided IDs.` });
+
+                // Render whatever is cached straight away, then revalidate if stale
+                const cached = ids.map(id => this.linearService.peekIssue(id));
+                if (ids.length > 0 && cached.every(entry => entry !== null)) {
+                    const entries = cached as CacheEntry<LinearIssue>[];
+                    await this.renderIssuesById(el, ids, entries.map(entry => entry.value), display, this.oldestTimestamp(entries));
+                    if (entries.every(entry => this.linearService.isFresh(entry))) return;
                 }
+
+                const issues = await this.linearService.getIssuesByIds(ids);
+                const refreshed = ids.map(id => this.linearService.peekIssue(id));
+                await this.renderIssuesById(el, ids, issues, display, this.oldestTimestamp(refreshed));
                 return;
             }
 
@@ -231,49 +458,48 @@ export class LinearProcessor extends MarkdownRenderChild {
             // Allow both 'id' and 'issueId' as keys for flexibility
             const issueId = parsed.id || parsed.issueId;
             if (issueId && typeof issueId === 'string') {
-                this.log('Fetching single issue by ID:', issueId);
-                const issue = await this.linearService.getIssueById(issueId);
-                el.empty();
-                if (issue) {
-                    const container = el.createDiv({ cls: "linear-issues-container" });
-                    await this.renderIssue(container, issue, options, ctx);
-                } else {
-                    el.createEl("p", { text: `No Linear issue found for ID: ${issueId}` });
+                log(this.settings, 'Fetching single issue by ID:', issueId);
+                if (force) {
+                    const issue = await this.linearService.refreshIssue(issueId);
+                    await this.renderIssuesById(el, [issueId], [issue], display, Date.now());
+                    return;
                 }
+
+                const cached = this.linearService.peekIssue(issueId);
+                if (cached) {
+                    await this.renderIssuesById(el, [issueId], [cached.value], display, cached.timestamp);
+                    if (this.linearService.isFresh(cached)) return;
+                }
+
+                const issue = await this.linearService.findIssue(issueId);
+                const entry = this.linearService.peekIssue(issueId);
+                await this.renderIssuesById(el, [issueId], [issue], display, this.oldestTimestamp([entry]));
                 return;
             }
 
-            // Fallback: fetch list of issues as before
-            const issues = await this.linearService.getIssues(options);
-            this.log('Fetched issues:', issues);
-
-            el.empty();
-            if (!issues.length) {
-                const messages: string[] = [];
-                if (options.teamName) messages.push(`team \"${options.teamName}\"`);
-                if (options.status) messages.push(`status \"${options.status}\"`);
-                if (options.assigneeEmail) messages.push(`assignee \"${options.assigneeEmail}\"`);
-                if (options.sorting) messages.push(`sorted by ${options.sorting.field} ${options.sorting.direction}`);
-
-                const message = messages.length 
-                    ? `No issues found for ${messages.join(" and ")}` 
-                    : "No issues found";
-                this.log('No matching issues:', message);
-                el.createEl("p", { text: message });
+            if (force) {
+                const page = await this.linearService.refreshIssues(options);
+                await this.renderIssueList(el, page, options, display, Date.now());
                 return;
             }
 
-            const container = el.createDiv({ cls: "linear-issues-container" });
-            for (const issue of issues) {
-                await this.renderIssue(container, issue, options, ctx);
+            // Fallback: fetch list of issues as before
+            const cached = this.linearService.peekIssues(options);
+            if (cached) {
+                log(this.settings, 'Rendering cached issues:', cached);
+                await this.renderIssueList(el, cached.value, options, display, cached.timestamp);
+                if (this.linearService.isFresh(cached)) return;
             }
+
+            const page = await this.linearService.getIssues(options);
+            log(this.settings, 'Fetched issues:', page);
+            const entry = this.linearService.peekIssues(options);
+            await this.renderIssueList(el, page, options, display, this.oldestTimestamp([entry]));
         } catch (error) {
-            this.log('Failed to process Linear block', error, true);
-            el.empty();
-            el.createDiv({
-                cls: 'linear-error',
-                text: 'Error loading Linear issues. Please check the console for details.'
-            });
+            // Reported in the block rather than with a notice, so an outage
+            // doesn't raise one notice for every block on the page
+            log(this.settings, 'Failed to process Linear block', error, true);
+            this.renderError(el, error);
         }
     }
-} 
\ No newline at end of file
+}
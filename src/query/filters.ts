@@ -0,0 +1,216 @@
+/**
+ * Filter values written in `linear` code blocks. Every filter accepts a single
+ * value or a YAML list; values prefixed with `!` exclude instead of include.
+ */
+export interface FilterValue {
+    include: string[];
+    exclude: string[];
+}
+
+/**
+ * Date bounds as written in the block (`2024-01-31`, `-7d`, `today`). They stay
+ * unresolved until the query runs so that relative dates are always current.
+ */
+export interface DateFilter {
+    on?: string;
+    gt?: string;
+    gte?: string;
+    lt?: string;
+    lte?: string;
+}
+
+// Linear stores priority as 0 = none, 1 = urgent ... 4 = low
+export const PRIORITY_LEVELS: Record<string, number> = {
+    none: 0,
+    urgent: 1,
+    high: 2,
+    medium: 3,
+    low: 4
+};
+
+// Ordering used for priority comparisons, from least to most important
+const PRIORITY_RANK = [0, 4, 3, 2, 1];
+
+const COMPARISON_PATTERN = /^(>=|<=|>|<|=|!)?\s*(.+)$/;
+const RELATIVE_DATE_PATTERN = /^([+-])(\d+)\s*([hdwmy])$/i;
+const ABSOLUTE_DATE_PATTERN = /^\d{4}-\d{2}-\d{2}(T.*)?$/;
+
+function toList(value: unknown): string[] | null {
+    const values = Array.isArray(value) ? value : [value];
+    const result: string[] = [];
+    for (const item of values) {
+        if (typeof item === 'string' && item.trim()) {
+            result.push(item.trim());
+        } else if (typeof item === 'number') {
+            result.push(String(item));
+        } else {
+            return null;
+        }
+    }
+    return result.length ? result : null;
+}
+
+export function parseFilterValue(value: unknown): FilterValue | null {
+    const values = toList(value);
+    if (!values) return null;
+
+    const filter: FilterValue = { include: [], exclude: [] };
+    for (const item of values) {
+        if (item.startsWith('!')) {
+            const name = item.slice(1).trim();
+            if (name) filter.exclude.push(name);
+        } else {
+            filter.include.push(item);
+        }
+    }
+    return filter.include.length || filter.exclude.length ? filter : null;
+}
+
+export function parsePriorityLevel(value: string): number | null {
+    const normalized = value.trim().toLowerCase();
+    if (normalized in PRIORITY_LEVELS) return PRIORITY_LEVELS[normalized];
+    const numeric = Number(normalized);
+    return Number.isInteger(numeric) && numeric >= 0 && numeric <= 4 ? numeric : null;
+}
+
+/**
+ * Resolves priority expressions such as `high`, `>=high` or `[urgent, "!none"]`
+ * into the set of matching priority values.
+ */
+export function parsePriorityFilter(value: unknown): number[] | null {
+    const values = toList(value);
+    if (!values) return null;
+
+    let included: number[] | null = null;
+    const excluded: number[] = [];
+    for (const item of values) {
+        const match = item.match(COMPARISON_PATTERN);
+        const level = match ? parsePriorityLevel(match[2]) : null;
+        if (!match || level === null) return null;
+
+        const rank = PRIORITY_RANK.indexOf(level);
+        const operator = match[1] ?? '=';
+        const matching = PRIORITY_RANK.filter((_, index) => {
+            switch (operator) {
+                case '>=': return index >= rank;
+                case '<=': return index <= rank;
+                case '>': return index > rank;
+                case '<': return index < rank;
+                default: return index === rank;
+            }
+        });
+
+        if (operator === '!') {
+            excluded.push(level);
+        } else {
+            const previous: number[] = included ?? [];
+            included = previous.concat(matching);
+        }
+    }
+
+    const result = (included ?? PRIORITY_RANK).filter(level => !excluded.includes(level));
+    return Array.from(new Set(result)).sort((a, b) => a - b);
+}
+
+function isDateExpression(value: string): boolean {
+    const normalized = value.toLowerCase();
+    return normalized === 'now' ||
+        normalized === 'today' ||
+        RELATIVE_DATE_PATTERN.test(value) ||
+        (ABSOLUTE_DATE_PATTERN.test(value) && !isNaN(new Date(value).getTime()));
+}
+
+/**
+ * Parses date conditions: `-7d` (within the last 7 days), `+2w` (within the next
+ * 2 weeks), `>=2024-01-01`, `<-30d` or a range `2024-01-01..2024-03-31`.
+ * A list combines several conditions.
+ */
+export function parseDateFilter(value: unknown): DateFilter | null {
+    const values = toList(value);
+    if (!values) return null;
+
+    const filter: DateFilter = {};
+    for (const item of values) {
+        if (item.includes('..')) {
+            const [from, to] = item.split('..').map(part => part.trim());
+            if (from && !isDateExpression(from)) return null;
+            if (to && !isDateExpression(to)) return null;
+            if (from) filter.gte = from;
+            if (to) filter.lte = to;
+            continue;
+        }
+
+        const match = item.match(COMPARISON_PATTERN);
+        if (!match || match[1] === '!' || !isDateExpression(match[2])) return null;
+        const expression = match[2].trim();
+
+        switch (match[1]) {
+            case '>': filter.gt = expression; break;
+            case '>=': filter.gte = expression; break;
+            case '<': filter.lt = expression; break;
+            case '<=': filter.lte = expression; break;
+            default: {
+                const relative = expression.match(RELATIVE_DATE_PATTERN);
+                if (relative && relative[1] === '-') {
+                    filter.gte = expression;
+                    filter.lte = 'now';
+                } else if (relative) {
+                    filter.gte = 'now';
+                    filter.lte = expression;
+                } else {
+                    filter.on = expression;
+                }
+            }
+        }
+    }
+    return filter;
+}
+
+/**
+ * Turns a date expression into an absolute date, relative to `now`.
+ */
+export function resolveDateExpression(value: string, now: Date = new Date()): Date {
+    const normalized = value.toLowerCase();
+
+    let date: Date;
+    if (normalized === 'now') {
+        date = new Date(now);
+    } else if (normalized === 'today') {
+        date = new Date(now);
+        date.setHours(0, 0, 0, 0);
+    } else {
+        const relative = value.match(RELATIVE_DATE_PATTERN);
+        if (relative) {
+            const amount = Number(relative[2]) * (relative[1] === '-' ? -1 : 1);
+            date = new Date(now);
+            switch (relative[3].toLowerCase()) {
+                case 'h': date.setHours(date.getHours() + amount); break;
+                case 'd': date.setDate(date.getDate() + amount); break;
+                case 'w': date.setDate(date.getDate() + amount * 7); break;
+                case 'm': date.setMonth(date.getMonth() + amount); break;
+                case 'y': date.setFullYear(date.getFullYear() + amount); break;
+            }
+        } else {
+            // Plain dates are read as local midnight rather than UTC
+            date = /^\d{4}-\d{2}-\d{2}$/.test(value) ? new Date(`${value}T00:00:00`) : new Date(value);
+        }
+    }
+    return date;
+}
+
+// Blocks refreshing more often than this would mostly spend the API rate limit
+const MIN_REFRESH_INTERVAL = 60 * 1000;
+
+/**
+ * Parses a refresh interval such as `5m` or `1h` into milliseconds.
+ */
+export function parseRefreshInterval(value: unknown): number | null {
+    const match = typeof value === 'string' ? value.trim().match(/^(\d+)\s*([mh])$/i) : null;
+    if (!match) return null;
+    const interval = Number(match[1]) * (match[2].toLowerCase() === 'h' ? 60 : 1) * 60 * 1000;
+    return interval >= MIN_REFRESH_INTERVAL ? interval : null;
+}
+
+export function describeFilterValue(filter: FilterValue): string {
+    return filter.include.concat(filter.exclude.map(value => `not ${value}`)).join(', ');
+}
@@ -0,0 +1,162 @@
+import { parseYaml } from 'obsidian';
+import { IssueOptions } from '../services/LinearService';
+import { parseFilterValue, parsePriorityFilter, parseDateFilter, parseRefreshInterval } from './filters';
+import { validateOptions, closestMatch, OptionDiagnostic } from './schema';
+import { parseSorting } from './sorting';
+import { QueryVariables, substituteVariables } from './variables';
+import { DisplayOptions, IssueColumn, IssueSection, GroupByField, ViewMode, ISSUE_COLUMNS, ISSUE_SECTIONS } from '../renderers/display';
+import { SavedQuery } from '../settings';
+
+/**
+ * The options of a `linear` block, or of any query written the same way.
+ */
+export interface ParsedBlock {
+    options: IssueOptions;
+    display: DisplayOptions;
+    refreshInterval: number | null; // milliseconds between automatic refreshes
+    parsed: Record<string, any>;
+    diagnostics: OptionDiagnostic[];
+}
+
+function matchCase(value: string, candidates: readonly string[]): string {
+    return candidates.find(candidate => candidate.toLowerCase() === value.toLowerCase()) ?? value;
+}
+
+function invalidYaml(error: unknown, key: string = ''): OptionDiagnostic {
+    return {
+        key,
+        message: `Invalid YAML${key ? ' in the saved query' : ''}: ${error instanceof Error ? error.message : String(error)}`,
+        expected: 'YAML key/value pairs such as "team: Engineering"'
+    };
+}
+
+/**
+ * Merges the saved query named by a block's `query` option into the block's
+ * options. Options written in the block win over those of the saved query.
+ */
+function applySavedQuery(parsed: Record<string, any>, savedQueries: SavedQuery[]): OptionDiagnostic[] {
+    const name = parsed.query;
+    if (typeof name !== 'string') return [];
+
+    const saved = savedQueries.find(query => query.name.toLowerCase() === name.trim().toLowerCase());
+    if (!saved) {
+        const suggestion = closestMatch(name, savedQueries.map(query => query.name));
+        return [{
+            key: 'query',
+            message: `Unknown saved query "${name}"`,
+            expected: savedQueries.length ? `one of ${savedQueries.map(query => query.name).join(', ')}` : 'a query saved in settings',
+            suggestion: suggestion ? `query: ${suggestion}` : undefined
+        }];
+    }
+
+    let savedOptions: unknown;
+    try {
+        savedOptions = parseYaml(saved.source.trim());
+    } catch (error) {
+        return [invalidYaml(error, 'query')];
+    }
+    if (savedOptions && typeof savedOptions === 'object') {
+        // Saved queries can't refer to other saved queries
+        const { query, ...options } = savedOptions as Record<string, any>;
+        for (const [key, value] of Object.entries(options)) {
+            if (!(key in parsed)) parsed[key] = value;
+        }
+    }
+    return [];
+}
+
+/**
+ * Parses a block's options, after merging in its saved query and replacing
+ * `{{name}}` variables with `variables`, so saved queries can use them too.
+ */
+export function parseBlockOptions(source: string, savedQueries: SavedQuery[] = [], variables: QueryVariables = {}): ParsedBlock {
+    const options: IssueOptions = {};
+    const display: DisplayOptions = {};
+    let parsed: any = null;
+
+    try {
+        parsed = parseYaml(source.trim());
+    } catch (error) {
+        return {
+            options,
+            display,
+            refreshInterval: null,
+            parsed: {},
+            diagnostics: [invalidYaml(error)]
+        };
+    }
+
+    const queryDiagnostics = parsed && typeof parsed === 'object'
+        ? applySavedQuery(parsed, savedQueries).concat(substituteVariables(parsed, variables))
+        : [];
+    const diagnostics = queryDiagnostics.concat(validateOptions(parsed));
+
+    if (parsed && typeof parsed === 'object') {
+        if (parsed.limit && typeof parsed.limit === 'number' && parsed.limit > 0) {
+            options.limit = parsed.limit;
+        }
+
+        // Name-based filters accept a single value or a list, "!" excludes a value
+        for (const key of ['team', 'status', 'assignee', 'creator', 'label', 'project', 'cycle'] as const) {
+            const value = parseFilterValue(parsed[key]);
+            if (value) {
+                options[key] = value;
+            }
+        }
+
+        const priority = parsePriorityFilter(parsed.priority);
+        if (priority) {
+            options.priority = priority;
+        }
+
+        for (const key of ['created', 'updated', 'due'] as const) {
+            const value = parseDateFilter(parsed[key]);
+            if (value) {
+                options[key] = value;
+            }
+        }
+
+        const sorting = parseSorting(parsed.sorting);
+        if (sorting) {
+            options.sorting = sorting;
+        }
+
+        if (parsed.hideDescription && parsed.hideDescription === true) {
+            display.hideDescription = true;
+        }
+
+        // View settings are validated by the schema, so only normalise their case here
+        if (typeof parsed.view === 'string') {
+            display.view = parsed.view.toLowerCase() as ViewMode;
+        }
+
+        // Progress totals are only right over every matching issue
+        if (display.view === 'progress') {
+            options.wholeScope = true;
+        }
+
+        if (Array.isArray(parsed.columns)) {
+            display.columns = parsed.columns.map((column: string) => matchCase(column, ISSUE_COLUMNS) as IssueColumn);
+        }
+
+        if (Array.isArray(parsed.show)) {
+            display.show = parsed.show.map((section: string) => matchCase(section, ISSUE_SECTIONS) as IssueSection);
+        }
+
+        if (typeof parsed.template === 'string') {
+            display.template = parsed.template;
+        }
+
+        if (typeof parsed.groupBy === 'string') {
+            display.groupBy = parsed.groupBy.toLowerCase() as GroupByField;
+        }
+    }
+
+    return {
+        options,
+        display,
+        refreshInterval: parsed && typeof parsed === 'object' ? parseRefreshInterval(parsed.refresh) : null,
+        parsed: parsed && typeof parsed === 'object' ? parsed : {},
+        diagnostics
+    };
+}
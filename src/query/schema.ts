@@ -0,0 +1,223 @@
+import { parseFilterValue, parsePriorityFilter, parseDateFilter, parseRefreshInterval } from './filters';
+import { parseSorting, SORT_FIELD_NAMES } from './sorting';
+import { VIEW_MODES, ISSUE_COLUMNS, GROUP_BY_FIELDS, ISSUE_SECTIONS } from '../renderers/display';
+
+export interface OptionSchema {
+    // Human readable description of the accepted values, used in diagnostics
+    expected: string;
+    // Known values, used for "did you mean" suggestions
+    values?: string[];
+    check: (value: unknown) => boolean;
+}
+
+export interface OptionDiagnostic {
+    key: string;
+    message: string;
+    expected?: string;
+    suggestion?: string;
+}
+
+const CYCLE_VALUES = ['current', 'next', 'previous', 'none'];
+
+function isOneOf(value: string, candidates: readonly string[]): boolean {
+    return candidates.some(candidate => candidate.toLowerCase() === value.toLowerCase());
+}
+
+const filterOption = (expected: string): OptionSchema => ({
+    expected,
+    check: value => parseFilterValue(value) !== null
+});
+
+const dateOption: OptionSchema = {
+    expected: 'a date, relative period (-7d), comparison (">=2024-01-01") or range (2024-01-01..2024-02-01)',
+    check: value => parseDateFilter(value) !== null
+};
+
+/**
+ * Every option a `linear` block understands.
+ */
+export const BLOCK_OPTIONS: Record<string, OptionSchema> = {
+    id: {
+        expected: 'an issue identifier such as ENG-123',
+        check: value => typeof value === 'string' && value.trim().length > 0
+    },
+    issueId: {
+        expected: 'an issue identifier such as ENG-123',
+        check: value => typeof value === 'string' && value.trim().length > 0
+    },
+    ids: {
+        expected: 'a list of issue identifiers',
+        check: value => Array.isArray(value) && value.length > 0 && value.every(item => typeof item === 'string')
+    },
+    query: {
+        expected: 'the name of a query saved in settings',
+        check: value => typeof value === 'string' && value.trim().length > 0
+    },
+    workspace: {
+        expected: 'the name of a workspace from settings',
+        check: value => typeof value === 'string' && value.trim().length > 0
+    },
+    limit: {
+        expected: 'a positive whole number',
+        check: value => typeof value === 'number' && Number.isInteger(value) && value > 0
+    },
+    team: filterOption('a team name or key, or a list of them'),
+    status: filterOption('a workflow state name, or a list of them'),
+    assignee: filterOption('an email, name, "me" or "none", or a list of them'),
+    creator: filterOption('an email, name or "me", or a list of them'),
+    label: filterOption('a label name, or a list of them'),
+    project: filterOption('a project name or "none", or a list of them'),
+    cycle: {
+        expected: '"current", "next", "previous", "none" or a cycle number',
+        values: CYCLE_VALUES,
+        check: value => {
+            const filter = parseFilterValue(value);
+            return !!filter && filter.include.concat(filter.exclude).every(item =>
+                CYCLE_VALUES.includes(item.toLowerCase()) || Number.isInteger(Number(item))
+            );
+        }
+    },
+    priority: {
+        expected: 'urgent, high, medium, low or none, optionally with a comparison such as ">=high"',
+        values: ['urgent', 'high', 'medium', 'low', 'none'],
+        check: value => parsePriorityFilter(value) !== null
+    },
+    created: dateOption,
+    updated: dateOption,
+    due: dateOption,
+    sorting: {
+        expected: 'one or more of dueDate, priority, updatedAt, createdAt, state, estimate or title, each optionally followed by asc/desc and nulls-first/nulls-last',
+        values: SORT_FIELD_NAMES,
+        check: value => parseSorting(value) !== null
+    },
+    hideDescription: {
+        expected: 'true or false',
+        values: ['true', 'false'],
+        check: value => typeof value === 'boolean'
+    },
+    view: {
+        expected: VIEW_MODES.join(', '),
+        values: [...VIEW_MODES],
+        check: value => typeof value === 'string' && isOneOf(value, VIEW_MODES)
+    },
+    columns: {
+        expected: `a list of columns: ${ISSUE_COLUMNS.join(', ')}`,
+        values: [...ISSUE_COLUMNS],
+        check: value => Array.isArray(value) && value.length > 0 &&
+            value.every(column => typeof column === 'string' && isOneOf(column, ISSUE_COLUMNS))
+    },
+    show: {
+        expected: `a list of fields to show on cards: ${ISSUE_SECTIONS.join(', ')}`,
+        values: [...ISSUE_SECTIONS],
+        check: value => Array.isArray(value) && value.length > 0 &&
+            value.every(section => typeof section === 'string' && isOneOf(section, ISSUE_SECTIONS))
+    },
+    template: {
+        expected: 'a card template in Markdown with placeholders such as {{title}}, or "default" for the built-in card',
+        check: value => typeof value === 'string' && value.trim().length > 0
+    },
+    groupBy: {
+        expected: GROUP_BY_FIELDS.join(', '),
+        values: [...GROUP_BY_FIELDS],
+        check: value => typeof value === 'string' && isOneOf(value, GROUP_BY_FIELDS)
+    },
+    refresh: {
+        expected: 'an interval of at least a minute, such as 5m or 1h',
+        check: value => parseRefreshInterval(value) !== null
+    }
+};
+
+function editDistance(a: string, b: string): number {
+    const previous = Array.from({ length: b.length + 1 }, (_, i) => i);
+    for (let i = 1; i <= a.length; i++) {
+        let diagonal = previous[0];
+        previous[0] = i;
+        for (let j = 1; j <= b.length; j++) {
+            const above = previous[j];
+            previous[j] = Math.min(
+                previous[j] + 1,
+                previous[j - 1] + 1,
+                diagonal + (a[i - 1] === b[j - 1] ? 0 : 1)
+            );
+            diagonal = above;
+        }
+    }
+    return previous[b.length];
+}
+
+/**
+ * Returns the candidate closest to `value`, if any is close enough to be a likely typo.
+ */
+export function closestMatch(value: string, candidates: string[]): string | null {
+    const normalized = value.toLowerCase();
+    let best: string | null = null;
+    let bestDistance = Infinity;
+    for (const candidate of candidates) {
+        const distance = editDistance(normalized, candidate.toLowerCase());
+        if (distance < bestDistance) {
+            best = candidate;
+            bestDistance = distance;
+        }
+    }
+    const threshold = Math.max(2, Math.floor(normalized.length / 3));
+    return best !== null && bestDistance <= threshold ? best : null;
+}
+
+function describeValue(value: unknown): string {
+    if (typeof value === 'string') return `"${value}"`;
+    if (Array.isArray(value)) return 'a list';
+    if (value === null) return 'an empty value';
+    return `${typeof value} ${JSON.stringify(value)}`;
+}
+
+/**
+ * Checks parsed block options against `BLOCK_OPTIONS` and describes every problem.
+ */
+export function validateOptions(parsed: unknown): OptionDiagnostic[] {
+    if (parsed === null || parsed === undefined) return [];
+    if (typeof parsed !== 'object' || Array.isArray(parsed)) {
+        return [{
+            key: '',
+            message: 'Options must be written as "key: value" lines',
+            expected: 'YAML key/value pairs such as "team: Engineering"'
+        }];
+    }
+
+    const diagnostics: OptionDiagnostic[] = [];
+    const knownKeys = Object.keys(BLOCK_OPTIONS);
+    for (const [key, value] of Object.entries(parsed as Record<string, unknown>)) {
+        const schema = BLOCK_OPTIONS[key];
+        if (!schema) {
+            diagnostics.push({
+                key,
+                message: 'Unknown option',
+                suggestion: closestMatch(key, knownKeys) ?? undefined
+            });
+            continue;
+        }
+
+        if (!schema.check(value)) {
+            let suggestion: string | undefined = undefined;
+            if (typeof value === 'string') {
+                // Numbers and booleans written in quotes are the most common slip
+                const unquoted = /^\d+$/.test(value) ? Number(value)
+                    : value === 'true' || value === 'false' ? value === 'true'
+                    : undefined;
+                const [, operator, name] = value.match(/^([!<>=]*)\s*(.*)$/) ?? ['', '', value];
+                const closest = schema.values ? closestMatch(name, schema.values) : null;
+                if (unquoted !== undefined && schema.check(unquoted)) {
+                    suggestion = `${key}: ${value}`;
+                } else if (closest) {
+                    suggestion = operator ? `${key}: "${operator}${closest}"` : `${key}: ${closest}`;
+                }
+            }
+            diagnostics.push({
+                key,
+                message: `Invalid value ${describeValue(value)}`,
+                expected: schema.expected,
+                suggestion
+            });
+        }
+    }
+    return diagnostics;
+}
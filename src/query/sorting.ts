@@ -0,0 +1,99 @@
+export type SortField = 'dueDate' | 'priority' | 'updatedAt' | 'createdAt' | 'state' | 'estimate' | 'title';
+
+export interface SortSpec {
+    field: SortField;
+    direction: 'asc' | 'desc';
+    nulls?: 'first' | 'last';
+}
+
+// Names accepted in blocks for each field, including the shorter forms
+const FIELD_ALIASES: Record<string, SortField> = {
+    duedate: 'dueDate',
+    due: 'dueDate',
+    priority: 'priority',
+    updatedat: 'updatedAt',
+    updated: 'updatedAt',
+    createdat: 'createdAt',
+    created: 'createdAt',
+    state: 'state',
+    status: 'state',
+    estimate: 'estimate',
+    title: 'title'
+};
+
+// Direction used when a field is given without one
+const DEFAULT_DIRECTIONS: Record<SortField, 'asc' | 'desc'> = {
+    dueDate: 'asc',
+    priority: 'desc',
+    updatedAt: 'desc',
+    createdAt: 'desc',
+    state: 'asc',
+    estimate: 'desc',
+    title: 'asc'
+};
+
+// The original date sorting values
+const LEGACY_SORTING: Record<string, SortSpec> = {
+    date: { field: 'dueDate', direction: 'desc' },
+    datedescending: { field: 'dueDate', direction: 'desc' },
+    dateascending: { field: 'dueDate', direction: 'asc' }
+};
+
+export const SORT_FIELD_NAMES = Object.keys(FIELD_ALIASES).concat(Object.keys(LEGACY_SORTING));
+
+function parseSortEntry(entry: string): SortSpec | null {
+    const normalized = entry.trim().toLowerCase();
+    if (normalized in LEGACY_SORTING) {
+        return { ...LEGACY_SORTING[normalized] };
+    }
+
+    // "<field> [asc|desc] [nulls-first|nulls-last]", or a leading "-" for descending
+    const words = normalized.split(/\s+/);
+    let name = words.shift() ?? '';
+    let direction: 'asc' | 'desc' | undefined = undefined;
+    if (name.startsWith('-')) {
+        direction = 'desc';
+        name = name.slice(1);
+    }
+
+    const field = FIELD_ALIASES[name];
+    if (!field) return null;
+
+    const spec: SortSpec = { field, direction: direction ?? DEFAULT_DIRECTIONS[field] };
+    for (const word of words) {
+        if (word === 'asc' || word === 'ascending') {
+            spec.direction = 'asc';
+        } else if (word === 'desc' || word === 'descending') {
+            spec.direction = 'desc';
+        } else if (word === 'nulls-first' || word === 'nullsfirst') {
+            spec.nulls = 'first';
+        } else if (word === 'nulls-last' || word === 'nullslast') {
+            spec.nulls = 'last';
+        } else {
+            return null;
+        }
+    }
+    return spec;
+}
+
+/**
+ * Parses the `sorting` option: one entry or a list, each entry a field with an
+ * optional direction and null placement, e.g. `[priority desc, due asc nulls-first]`.
+ */
+export function parseSorting(value: unknown): SortSpec[] | null {
+    const entries = Array.isArray(value) ? value : typeof value === 'string' ? value.split(',') : null;
+    if (!entries || !entries.length) return null;
+
+    const specs: SortSpec[] = [];
+    for (const entry of entries) {
+        if (typeof entry !== 'string') return null;
+        const spec = parseSortEntry(entry);
+        if (!spec) return null;
+        specs.push(spec);
+    }
+    return specs;
+}
+
+export function describeSorting(sorting: SortSpec[]): string {
+    return sorting.map(spec => `${spec.field} ${spec.direction}`).join(', ');
+}
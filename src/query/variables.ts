@@ -0,0 +1,117 @@
+import { App, TFile } from 'obsidian';
+import { OptionDiagnostic } from './schema';
+
+/**
+ * Values for the `{{name}}` variables in block options. Frontmatter lists stay
+ * lists, so an option holding only that variable becomes a list too.
+ */
+export type QueryVariables = Record<string, string | string[]>;
+
+const VARIABLE_PATTERN = /\{\{\s*([\w.-]+)\s*\}\}/g;
+const NOTE_VARIABLES = ['filename', 'frontmatter'];
+// Only user filters know "me", other options would take it as a name
+const ME_OPTIONS = ['assignee', 'creator'];
+
+function localDate(date: Date): string {
+    const month = String(date.getMonth() + 1).padStart(2, '0');
+    const day = String(date.getDate()).padStart(2, '0');
+    return `${date.getFullYear()}-${month}-${day}`;
+}
+
+// Frontmatter links to notes such as "[[Engineering]]" stand for the note's name
+function frontmatterValue(value: unknown): string | null {
+    if (typeof value === 'number' || typeof value === 'boolean') return String(value);
+    if (typeof value !== 'string') return null;
+    return value.replace(/^\[\[([^\]|#]+)(?:[#|][^\]]*)?\]\]$/, '$1').trim();
+}
+
+/**
+ * The variables for blocks in the note at `sourcePath`: `me` (in the
+ * assignee and creator options only), `today`, `this_week`, and from the note
+ * `filename` and `frontmatter.<property>`.
+ * Outside a note, as for the sync query, only the first three are set.
+ */
+export function queryVariables(app: App, sourcePath: string, now: Date = new Date()): QueryVariables {
+    const monday = new Date(now);
+    monday.setDate(now.getDate() - (now.getDay() + 6) % 7);
+    const sunday = new Date(monday);
+    sunday.setDate(monday.getDate() + 6);
+
+    const variables: QueryVariables = {
+        // The assignee and creator filters resolve "me" to whoever the workspace's credentials belong to
+        me: 'me',
+        today: localDate(now),
+        this_week: `${localDate(monday)}..${localDate(sunday)}`
+    };
+
+    const file = sourcePath ? app.vault.getAbstractFileByPath(sourcePath) : null;
+    if (!(file instanceof TFile)) return variables;
+
+    variables.filename = file.basename;
+    const frontmatter = app.metadataCache.getFileCache(file)?.frontmatter ?? {};
+    for (const [key, value] of Object.entries(frontmatter)) {
+        if (Array.isArray(value)) {
+            const items = value.map(frontmatterValue).filter((item): item is string => !!item);
+            if (items.length) variables[`frontmatter.${key}`] = items;
+        } else {
+            const item = frontmatterValue(value);
+            if (item) variables[`frontmatter.${key}`] = item;
+        }
+    }
+    return variables;
+}
+
+/**
+ * Replaces the variables in every string option, and in lists of them, in
+ * place. Variables without a value are reported and left as written.
+ */
+export function substituteVariables(parsed: Record<string, any>, variables: QueryVariables): OptionDiagnostic[] {
+    const diagnostics: OptionDiagnostic[] = [];
+
+    const substitute = (key: string, value: string): string | string[] => {
+        // An option holding nothing but a list variable takes the whole list
+        const whole = value.trim().match(/^\{\{\s*([\w.-]+)\s*\}\}$/);
+        if (whole && Array.isArray(variables[whole[1]])) {
+            return variables[whole[1]];
+        }
+
+        return value.replace(VARIABLE_PATTERN, (placeholder, name: string) => {
+            if (name === 'me' && !ME_OPTIONS.includes(key)) {
+                diagnostics.push({ key, message: '{{me}} can only be used in assignee and creator' });
+                return placeholder;
+            }
+            const replacement = variables[name];
+            if (replacement !== undefined) {
+                return Array.isArray(replacement) ? replacement.join(', ') : replacement;
+            }
+            diagnostics.push(missingVariable(key, name, variables));
+            return placeholder;
+        });
+    };
+
+    for (const [key, value] of Object.entries(parsed)) {
+        // Card templates have placeholders of their own, filled for each issue
+        if (key === 'template') continue;
+        if (typeof value === 'string') {
+            parsed[key] = substitute(key, value);
+        } else if (Array.isArray(value)) {
+            parsed[key] = value.flatMap(item => typeof item === 'string' ? substitute(key, item) : [item]);
+        }
+    }
+    return diagnostics;
+}
+
+function missingVariable(key: string, name: string, variables: QueryVariables): OptionDiagnostic {
+    const [scope, property] = name.split('.');
+    if (NOTE_VARIABLES.includes(scope) && !('filename' in variables)) {
+        return { key, message: `{{${name}}} can only be used in a block inside a note` };
+    }
+    if (scope === 'frontmatter' && property) {
+        return { key, message: `The note has no "${property}" property in its frontmatter for {{${name}}}` };
+    }
+    return {
+        key,
+        message: `Unknown variable {{${name}}}`,
+        expected: 'one of {{me}}, {{today}}, {{this_week}}, {{filename}} or {{frontmatter.<property>}}'
+    };
+}
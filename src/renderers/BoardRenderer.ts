@@ -0,0 +1,124 @@
+import { LinearIssue, WorkflowStateNode, STATE_TYPE_ORDER } from "../services/LinearService";
+import type { IssueRenderer } from './IssueRenderer';
+import { DisplayOptions, GroupByField, priorityLabel } from './display';
+
+interface BoardColumn {
+    key: string;
+    title: string;
+    issues: LinearIssue[];
+}
+
+// Urgent to low, with "no priority" last
+const PRIORITY_COLUMNS = [1, 2, 3, 4, 0];
+
+/**
+ * Kanban board with one column per workflow state, assignee, project or priority.
+ */
+export class BoardRenderer {
+    constructor(
+        private issueRenderer: IssueRenderer,
+        private groupBy: GroupByField,
+        private states: WorkflowStateNode[]
+    ) {}
+
+    async render(container: HTMLElement, issues: LinearIssue[], display: DisplayOptions) {
+        const boardEl = container.createDiv({ cls: 'linear-board' });
+        await this.renderColumns(boardEl, issues, display);
+    }
+
+    private async renderColumns(boardEl: HTMLElement, issues: LinearIssue[], display: DisplayOptions) {
+        // An edit can move a card to another column, so redraw the whole board
+        const onChange = async () => {
+            boardEl.empty();
+            await this.renderColumns(boardEl, issues, display);
+        };
+
+        for (const column of this.columns(issues)) {
+            const columnEl = boardEl.createDiv({ cls: 'linear-board-column' });
+            const headerEl = columnEl.createDiv({ cls: 'linear-board-column-header' });
+            headerEl.createSpan({ cls: 'linear-board-column-title', text: column.title });
+            headerEl.createSpan({ cls: 'linear-board-column-count', text: String(column.issues.length) });
+
+            const cardsEl = columnEl.createDiv({ cls: 'linear-board-column-cards' });
+            for (const issue of column.issues) {
+                await this.issueRenderer.renderIssue(cardsEl, issue, display, onChange);
+            }
+        }
+    }
+
+    private columns(issues: LinearIssue[]): BoardColumn[] {
+        switch (this.groupBy) {
+            case 'state': return this.stateColumns(issues);
+            case 'assignee': return this.groupColumns(issues, issue => issue.assignee?.name, 'Unassigned');
+            case 'project': return this.groupColumns(issues, issue => issue.project?.name, 'No project');
+            case 'priority':
+                return PRIORITY_COLUMNS.map(priority => ({
+                    key: String(priority),
+                    title: priorityLabel(priority),
+                    issues: issues.filter(issue => issue.priority === priority)
+                }));
+        }
+    }
+
+    /**
+     * One column per state name, in workflow order, covering every state of the
+     * teams on the board so empty states still get a column. States with the
+     * same name in different teams share a column.
+     */
+    private stateColumns(issues: LinearIssue[]): BoardColumn[] {
+        const teamIds = new Set(issues.map(issue => issue.team?.id).filter(id => id));
+        const rank = (state: { type: string; position?: number }) =>
+            [STATE_TYPE_ORDER.indexOf(state.type), state.position ?? 0];
+
+        const columns = new Map<string, BoardColumn & { rank: number[] }>();
+        const addColumn = (state: { name: string; type: string; position?: number }) => {
+            const key = state.name.toLowerCase();
+            if (!columns.has(key)) {
+                columns.set(key, { key, title: state.name, issues: [], rank: rank(state) });
+            }
+            return columns.get(key)!;
+        };
+
+        for (const state of this.states) {
+            if (state.team && teamIds.has(state.team.id)) {
+                addColumn(state);
+            }
+        }
+        const noState: LinearIssue[] = [];
+        for (const issue of issues) {
+            if (issue.state) {
+                addColumn(issue.state).issues.push(issue);
+            } else {
+                noState.push(issue);
+            }
+        }
+
+        const sorted = Array.from(columns.values()).sort((a, b) => a.rank[0] - b.rank[0] || a.rank[1] - b.rank[1]);
+        if (noState.length) {
+            sorted.push({ key: 'none', title: 'No status', issues: noState, rank: [] });
+        }
+        return sorted;
+    }
+
+    private groupColumns(issues: LinearIssue[], name: (issue: LinearIssue) => string | undefined, emptyTitle: string): BoardColumn[] {
+        const columns = new Map<string, BoardColumn>();
+        const empty: LinearIssue[] = [];
+        for (const issue of issues) {
+            const title = name(issue);
+            if (!title) {
+                empty.push(issue);
+                continue;
+            }
+            if (!columns.has(title)) {
+                columns.set(title, { key: title, title, issues: [] });
+            }
+            columns.get(title)!.issues.push(issue);
+        }
+
+        const sorted = Array.from(columns.values()).sort((a, b) => a.title.localeCompare(b.title));
+        if (empty.length) {
+            sorted.push({ key: 'none', title: emptyTitle, issues: empty });
+        }
+        return sorted;
+    }
+}
@@ -0,0 +1,145 @@
+import { App, HoverParent, HoverPopover } from "obsidian";
+import { LinearIssue } from "../services/LinearService";
+import { LinearWorkspaces } from "../services/LinearWorkspaces";
+import { toServiceError } from "../services/LinearServiceError";
+import { LinearPluginSettings } from '../settings';
+import { log } from '../log';
+import { IssueRenderer } from './IssueRenderer';
+
+export interface IdentifierMatch {
+    identifier: string;
+    from: number;
+    to: number;
+}
+
+// Milliseconds the pointer rests on a chip before its card is shown
+const HOVER_DELAY = 300;
+
+function escapeRegExp(value: string): string {
+    return value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+/**
+ * Inline chips for issue identifiers such as ENG-123 written in notes. Only
+ * identifiers starting with a known team key are matched, so other
+ * dash-number words are left alone. Keys from every workspace are matched,
+ * and each chip loads its issue from the workspace owning the key.
+ */
+export class IssueChipRenderer {
+    private pattern: RegExp | null = null;
+    // Resolves once the latest team keys have been fetched from Linear
+    ready: Promise<void>;
+    private loads = 0; // reloads started, so an older one finishing late is ignored
+
+    constructor(
+        private app: App,
+        private settings: LinearPluginSettings,
+        private workspaces: LinearWorkspaces
+    ) {
+        this.ready = this.reloadTeamKeys();
+    }
+
+    /**
+     * Matches the team keys of the workspaces configured now, for when
+     * workspaces or their credentials change. Cached keys apply at once, and
+     * the returned promise resolves once they have been fetched from Linear.
+     */
+    reloadTeamKeys(): Promise<void> {
+        this.setTeamKeys(this.workspaces.configured.flatMap(service => service.peekTeams()?.map(team => team.key) ?? []));
+        this.ready = this.loadTeamKeys(++this.loads);
+        return this.ready;
+    }
+
+    private async loadTeamKeys(load: number) {
+        const keys = await Promise.all(this.workspaces.configured.map(async service => {
+            try {
+                const teams = await service.getTeams();
+                return teams.map(team => team.key);
+            } catch (error) {
+                log(this.settings, `Failed to load team keys for issue chips from "${service.workspaceName}"`, error, true);
+                return service.peekTeams()?.map(team => team.key) ?? [];
+            }
+        }));
+        if (load === this.loads) this.setTeamKeys(keys.flat());
+    }
+
+    private setTeamKeys(keys: string[]) {
+        this.pattern = keys.length
+            ? new RegExp(`(?<![\\w/#-])(?:${keys.map(escapeRegExp).join('|')})-\\d+(?![\\w-])`, 'g')
+            : null;
+    }
+
+    get enabled(): boolean {
+        return this.settings.inlineChips && this.pattern !== null;
+    }
+
+    findIdentifiers(text: string): IdentifierMatch[] {
+        if (!this.pattern) return [];
+
+        const matches: IdentifierMatch[] = [];
+        this.pattern.lastIndex = 0;
+        let match: RegExpExecArray | null;
+        while ((match = this.pattern.exec(text)) !== null) {
+            matches.push({ identifier: match[0], from: match.index, to: match.index + match[0].length });
+        }
+        return matches;
+    }
+
+    /**
+     * Creates a chip showing the identifier straight away and the issue's
+     * status and title once it has loaded. Hovering shows the full card.
+     */
+    createChip(identifier: string, sourcePath: string): HTMLElement {
+        const chipEl = createSpan({ cls: 'linear-chip', attr: { 'data-identifier': identifier } });
+        const statusEl = chipEl.createSpan({ cls: 'linear-chip-status' });
+        chipEl.createSpan({ cls: 'linear-chip-identifier', text: identifier });
+        const titleEl = chipEl.createSpan({ cls: 'linear-chip-title' });
+
+        const linearService = this.workspaces.forIdentifier(identifier) ?? this.workspaces.default;
+        let issue: LinearIssue | null = null;
+        const fill = (loaded: LinearIssue) => {
+            issue = loaded;
+            chipEl.removeClass('is-missing');
+            titleEl.setText(loaded.title);
+            if (loaded.state) {
+                statusEl.style.setProperty('--linear-state-color', loaded.state.color);
+                statusEl.setAttribute('aria-label', loaded.state.name);
+                chipEl.toggleClass('is-done', loaded.state.type === 'completed' || loaded.state.type === 'canceled');
+            }
+        };
+
+        const cached = linearService.peekIssue(identifier);
+        if (cached) {
+            fill(cached.value);
+        }
+        if (!cached || !linearService.isFresh(cached)) {
+            linearService.findIssue(identifier).then(fill, error => {
+                log(this.settings, `Failed to load issue for chip ${identifier}`, error, true);
+                if (!issue) {
+                    chipEl.addClass('is-missing');
+                    chipEl.setAttribute('aria-label', toServiceError(error).kind === 'not-found'
+                        ? `${identifier} doesn't exist in Linear`
+                        : `Could not load ${identifier} from Linear`);
+                }
+            });
+        }
+
+        chipEl.addEventListener('click', evt => {
+            if (!issue) return;
+            evt.preventDefault();
+            window.open(issue.url, '_blank');
+        });
+
+        const hoverParent: HoverParent = { hoverPopover: null };
+        chipEl.addEventListener('mouseover', () => {
+            if (!issue || hoverParent.hoverPopover) return;
+            const popover = new HoverPopover(hoverParent, chipEl, HOVER_DELAY);
+            hoverParent.hoverPopover = popover;
+            popover.hoverEl.addClass('linear-chip-popover');
+            new IssueRenderer(this.app, this.settings, linearService, popover, sourcePath)
+                .renderIssue(popover.hoverEl, issue, {});
+        });
+
+        return chipEl;
+    }
+}
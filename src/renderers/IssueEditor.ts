@@ -0,0 +1,170 @@
+import { App, Menu, Notice } from "obsidian";
+import { LinearService, LinearIssue } from "../services/LinearService";
+import { LinearPluginSettings } from '../settings';
+import { log } from '../log';
+import { UserSuggestModal } from '../modals/UserSuggestModal';
+import { DueDateModal } from '../modals/DueDateModal';
+import { priorityLabel } from './display';
+
+// Urgent to low, with "no priority" last, as in Linear's own menu
+const PRIORITY_CHOICES = [1, 2, 3, 4, 0];
+
+/**
+ * Called whenever the issue shown by a view changes, first optimistically and
+ * then again with Linear's copy or the rolled back original.
+ */
+export type IssueChangeHandler = (issue: LinearIssue) => void;
+
+/**
+ * Menus and modals for changing an issue's status, assignee, priority and due
+ * date from a rendered view.
+ */
+export class IssueEditor {
+    constructor(
+        private app: App,
+        private settings: LinearPluginSettings,
+        private linearService: LinearService
+    ) {}
+
+    openMenu(evt: MouseEvent, issue: LinearIssue, onChange: IssueChangeHandler) {
+        evt.preventDefault();
+        const menu = new Menu();
+        menu.addItem(item => item
+            .setTitle('Change status...')
+            .setIcon('circle-dot')
+            .onClick(clickEvt => this.editStatus(clickEvt instanceof MouseEvent ? clickEvt : evt, issue, onChange)));
+        menu.addItem(item => item
+            .setTitle('Change assignee...')
+            .setIcon('user')
+            .onClick(() => this.editAssignee(issue, onChange)));
+        menu.addItem(item => item
+            .setTitle('Change priority...')
+            .setIcon('signal')
+            .onClick(clickEvt => this.editPriority(clickEvt instanceof MouseEvent ? clickEvt : evt, issue, onChange)));
+        menu.addItem(item => item
+            .setTitle('Change due date...')
+            .setIcon('calendar')
+            .onClick(() => this.editDueDate(issue, onChange)));
+        menu.addSeparator();
+        menu.addItem(item => item
+            .setTitle('Open in Linear')
+            .setIcon('external-link')
+            .onClick(() => window.open(issue.url, '_blank')));
+        menu.showAtMouseEvent(evt);
+    }
+
+    async editStatus(evt: MouseEvent, issue: LinearIssue, onChange: IssueChangeHandler) {
+        evt.preventDefault();
+        if (!issue.team) {
+            new Notice(`Cannot change the status of ${issue.identifier}: its team is unknown`);
+            return;
+        }
+
+        let states;
+        try {
+            states = await this.linearService.getTeamStates(issue.team.id);
+        } catch (error) {
+            log(this.settings, 'Failed to load workflow states', error, true);
+            new Notice('Failed to load workflow states from Linear');
+            return;
+        }
+
+        const menu = new Menu();
+        for (const state of states) {
+            menu.addItem(item => item
+                .setTitle(state.name)
+                .setChecked(state.id === issue.state?.id)
+                .onClick(() => {
+                    if (state.id === issue.state?.id) return;
+                    this.apply(
+                        issue,
+                        { state: { id: state.id, name: state.name, type: state.type, color: state.color } },
+                        () => this.linearService.updateIssueState(issue.id, state.id),
+                        onChange
+                    );
+                }));
+        }
+        menu.showAtMouseEvent(evt);
+    }
+
+    async editAssignee(issue: LinearIssue, onChange: IssueChangeHandler) {
+        let users;
+        try {
+            users = await this.linearService.getUsers();
+        } catch (error) {
+            log(this.settings, 'Failed to load users', error, true);
+            new Notice('Failed to load users from Linear');
+            return;
+        }
+
+        new UserSuggestModal(this.app, users, user => {
+            if ((user?.id ?? null) === (issue.assignee?.id ?? null)) return;
+            this.apply(
+                issue,
+                { assignee: user ?? undefined },
+                () => this.linearService.updateIssueAssignee(issue.id, user?.id ?? null),
+                onChange
+            );
+        }).open();
+    }
+
+    editPriority(evt: MouseEvent, issue: LinearIssue, onChange: IssueChangeHandler) {
+        evt.preventDefault();
+        const menu = new Menu();
+        for (const priority of PRIORITY_CHOICES) {
+            menu.addItem(item => item
+                .setTitle(priorityLabel(priority))
+                .setChecked(priority === issue.priority)
+                .onClick(() => {
+                    if (priority === issue.priority) return;
+                    this.apply(
+                        issue,
+                        { priority },
+                        () => this.linearService.updateIssuePriority(issue.id, priority),
+                        onChange
+                    );
+                }));
+        }
+        menu.showAtMouseEvent(evt);
+    }
+
+    editDueDate(issue: LinearIssue, onChange: IssueChangeHandler) {
+        new DueDateModal(this.app, issue.dueDate, dueDate => {
+            if (dueDate === (issue.dueDate ?? null)) return;
+            this.apply(
+                issue,
+                { dueDate: dueDate ?? undefined },
+                () => this.linearService.updateIssueDueDate(issue.id, dueDate),
+                onChange
+            );
+        }).open();
+    }
+
+    /**
+     * Shows `patch` straight away, then replaces it with Linear's copy of the
+     * issue, or restores the original if the update fails. The issue object is
+     * updated in place so every list holding it stays in step.
+     */
+    private async apply(
+        issue: LinearIssue,
+        patch: Partial<LinearIssue>,
+        mutate: () => Promise<LinearIssue>,
+        onChange: IssueChangeHandler
+    ) {
+        const original: Partial<LinearIssue> = {};
+        for (const key of Object.keys(patch) as (keyof LinearIssue)[]) {
+            Object.assign(original, { [key]: issue[key] });
+        }
+        Object.assign(issue, patch);
+        onChange(issue);
+
+        try {
+            Object.assign(issue, await mutate());
+        } catch (error) {
+            log(this.settings, 'Failed to update issue', error, true);
+            Object.assign(issue, original);
+            new Notice(`Failed to update ${issue.identifier}: ${error instanceof Error ? error.message : String(error)}`);
+        }
+        onChange(issue);
+    }
+}
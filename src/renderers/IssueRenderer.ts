@@ -0,0 +1,224 @@
+import { App, Component, MarkdownRenderer, setIcon } from "obsidian";
+import { LinearService, LinearIssue } from "../services/LinearService";
+import { LinearPluginSettings } from '../settings';
+import { log } from '../log';
+import { TableRenderer } from './TableRenderer';
+import { BoardRenderer } from './BoardRenderer';
+import { ProgressRenderer } from './ProgressRenderer';
+import { IssueSectionsRenderer } from './IssueSectionsRenderer';
+import { IssueEditor, IssueChangeHandler } from './IssueEditor';
+import { DisplayOptions, DEFAULT_COLUMNS, dueDateBadge, priorityLabel } from './display';
+import { cardTemplate, cardValues } from './cardTemplate';
+import { fillTemplate } from '../export/template';
+
+/**
+ * Renders issues as cards, a table or a board. Markdown inside issues is
+ * rendered as a child of `component`, relative to `sourcePath`.
+ */
+export class IssueRenderer {
+    // Null when editing from notes is turned off
+    readonly editor: IssueEditor | null;
+    private sections: IssueSectionsRenderer;
+
+    constructor(
+        private app: App,
+        private settings: LinearPluginSettings,
+        private linearService: LinearService,
+        private component: Component,
+        private sourcePath: string
+    ) {
+        this.editor = settings.allowEditing ? new IssueEditor(app, settings, linearService) : null;
+        this.sections = new IssueSectionsRenderer(app, settings, linearService, component, sourcePath);
+    }
+
+    async renderIssues(container: HTMLElement, issues: LinearIssue[], display: DisplayOptions) {
+        switch (display.view) {
+            case 'table':
+                new TableRenderer(display.columns ?? DEFAULT_COLUMNS, this.editor).render(container, issues);
+                break;
+            case 'board': {
+                const states = await this.linearService.getWorkflowStates().catch(error => {
+                    log(this.settings, 'Failed to load workflow states for board', error, true);
+                    return [];
+                });
+                await new BoardRenderer(this, display.groupBy ?? 'state', states).render(container, issues, display);
+                break;
+            }
+            case 'progress':
+                await new ProgressRenderer(this.settings, this.linearService).render(container, issues);
+                break;
+            default:
+                for (const issue of issues) {
+                    await this.renderIssue(container, issue, display);
+                }
+        }
+    }
+
+    /**
+     * Renders one issue card. When the issue is edited the card redraws itself,
+     * unless `onChange` is given to redraw the surrounding view instead.
+     */
+    async renderIssue(container: HTMLElement, issue: LinearIssue, display: DisplayOptions, onChange?: IssueChangeHandler) {
+        const issueEl = container.createDiv({ cls: "linear-issue" });
+        const handleChange: IssueChangeHandler = onChange ?? (async changed => {
+            issueEl.empty();
+            await this.fillIssue(issueEl, changed, display, handleChange);
+        });
+        const editor = this.editor;
+        if (editor) {
+            issueEl.addEventListener('contextmenu', evt => editor.openMenu(evt, issue, handleChange));
+        }
+        await this.fillIssue(issueEl, issue, display, handleChange);
+    }
+
+    private async fillIssue(issueEl: HTMLElement, issue: LinearIssue, display: DisplayOptions, onChange: IssueChangeHandler) {
+        log(this.settings, 'Rendering issue:', {
+            id: issue.id,
+            identifier: issue.identifier,
+            title: issue.title,
+            dueDate: issue.dueDate,
+            formattedDueDate: issue.dueDate ? new Date(issue.dueDate).toLocaleDateString() : 'No due date'
+        });
+
+        try {
+            const editor = this.editor;
+            const show = display.show ?? [];
+
+            const template = cardTemplate(display, this.settings.cardTemplate);
+            if (template) {
+                await this.fillFromTemplate(issueEl, issue, template, display, onChange);
+                this.sections.render(issueEl, issue, show);
+                return;
+            }
+
+            // Create issue header with number and title
+            const headerEl = issueEl.createDiv({ cls: "linear-issue-header" });
+            const link = headerEl.createEl("a", {
+                cls: "linear-issue-title",
+                href: issue.url,
+                text: `${issue.identifier}: ${issue.title}`
+            });
+            link.setAttribute("target", "_blank");
+
+            // Add metadata section for due date and other info
+            const metadataEl = issueEl.createDiv({ cls: "linear-issue-metadata" });
+
+            // Add due date if available
+            const dueDate = dueDateBadge(issue.dueDate);
+            log(this.settings, 'Creating due date element:', {
+                text: dueDate.text,
+                class: dueDate.cls,
+                originalDate: issue.dueDate
+            });
+            const dueDateEl = metadataEl.createSpan({
+                cls: `linear-issue-due-date ${dueDate.cls}`,
+                text: dueDate.text
+            });
+
+            if (show.includes('assignee')) {
+                metadataEl.createSpan({ cls: 'linear-issue-assignee', text: issue.assignee?.name ?? 'Unassigned' });
+            }
+            if (show.includes('priority')) {
+                metadataEl.createSpan({ cls: 'linear-issue-priority', text: priorityLabel(issue.priority) });
+            }
+            if (show.includes('estimate') && issue.estimate !== undefined) {
+                metadataEl.createSpan({
+                    cls: 'linear-issue-estimate',
+                    text: `${issue.estimate} ${issue.estimate === 1 ? 'point' : 'points'}`
+                });
+            }
+            if (show.includes('labels')) {
+                for (const label of issue.labels) {
+                    const labelEl = metadataEl.createSpan({ cls: 'linear-issue-label', text: label.name });
+                    labelEl.style.setProperty('--linear-label-color', label.color);
+                }
+            }
+
+            // Add status if available
+            if (issue.state) {
+                const statusEl = headerEl.createSpan({ cls: 'linear-issue-status', text: issue.state.name });
+                statusEl.style.setProperty('--linear-state-color', issue.state.color);
+                if (editor) {
+                    statusEl.addClass('is-editable');
+                    statusEl.setAttribute('aria-label', 'Change status');
+                    statusEl.addEventListener('click', evt => editor.editStatus(evt, issue, onChange));
+                }
+            }
+
+            if (editor) {
+                dueDateEl.addClass('is-editable');
+                dueDateEl.setAttribute('aria-label', 'Change due date');
+                dueDateEl.addEventListener('click', () => editor.editDueDate(issue, onChange));
+
+                const menuButton = headerEl.createEl('button', { cls: 'linear-issue-menu clickable-icon' });
+                menuButton.setAttribute('aria-label', 'Edit issue');
+                setIcon(menuButton, 'more-horizontal');
+                menuButton.addEventListener('click', evt => editor.openMenu(evt, issue, onChange));
+            }
+
+            // Add description if available and not hidden
+            if (!display.hideDescription && issue.description) {
+                log(this.settings, 'Rendering description', { 
+                    hideDescription: display.hideDescription,
+                    hasDescription: !!issue.description,
+                    descriptionLength: issue.description?.length
+                });
+                const descriptionEl = issueEl.createDiv({ cls: "linear-issue-description" });
+                await MarkdownRenderer.render(
+                    this.app,
+                    issue.description,
+                    descriptionEl,
+                    this.sourcePath,
+                    this.component
+                );
+            } else {
+                log(this.settings, 'Skipping description', {
+                    hideDescription: display.hideDescription,
+                    hasDescription: !!issue.description,
+                    reason: !issue.description ? 'no description' : 'hideDescription is true'
+                });
+            }
+
+            this.sections.render(issueEl, issue, show);
+        } catch (error) {
+            log(this.settings, 'Failed to render issue', error, true);
+            issueEl.createDiv({
+                cls: 'linear-error',
+                text: `Failed to render issue ${issue.identifier}`
+            });
+        }
+    }
+
+    /**
+     * Fills a card from a Markdown template. Status badges in the template take
+     * the state's colour and, when editing is on, change the status like the
+     * built-in card's; the rest of the editing is in the card's context menu.
+     */
+    private async fillFromTemplate(
+        issueEl: HTMLElement,
+        issue: LinearIssue,
+        template: string,
+        display: DisplayOptions,
+        onChange: IssueChangeHandler
+    ) {
+        issueEl.addClass('linear-issue-templated');
+        const bodyEl = issueEl.createDiv({ cls: 'linear-issue-template' });
+        await MarkdownRenderer.render(
+            this.app,
+            fillTemplate(template, cardValues(issue, display)),
+            bodyEl,
+            this.sourcePath,
+            this.component
+        );
+
+        const editor = this.editor;
+        bodyEl.querySelectorAll<HTMLElement>('.linear-issue-status').forEach(statusEl => {
+            statusEl.style.setProperty('--linear-state-color', statusEl.dataset.stateColor ?? '');
+            if (editor) {
+                statusEl.addClass('is-editable');
+                statusEl.setAttribute('aria-label', 'Change status');
+                statusEl.addEventListener('click', evt => editor.editStatus(evt, issue, onChange));
+            }
+        });
+    }
+}
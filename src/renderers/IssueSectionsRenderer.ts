@@ -0,0 +1,243 @@
+import { App, Component, MarkdownRenderer, Notice } from "obsidian";
+import {
+    LinearService,
+    LinearIssue,
+    IssueDetails,
+    IssueSummary,
+    CommentNode,
+    RelationKind
+} from "../services/LinearService";
+import { LinearPluginSettings } from '../settings';
+import { log } from '../log';
+import { IssueSection } from './display';
+import { appendNoteLink } from '../modals/CommentModal';
+
+type RelatedSection = 'comments' | 'children' | 'relations' | 'attachments';
+
+// Sections backed by related entities, in the order they appear on a card
+const SECTION_TITLES: Record<RelatedSection, string> = {
+    comments: 'Comments',
+    children: 'Sub-issues',
+    relations: 'Relations',
+    attachments: 'Attachments'
+};
+
+const RELATION_TITLES: Record<RelationKind, string> = {
+    'blocked-by': 'Blocked by',
+    'blocks': 'Blocks',
+    'duplicate-of': 'Duplicate of',
+    'duplicated-by': 'Duplicated by',
+    'related': 'Related'
+};
+
+/**
+ * Collapsible sections for an issue's comments, sub-issues, relations and
+ * attachments. They are fetched when a section is first opened, with a single
+ * request for all sections of the issue. The comments section ends with a box
+ * for adding a comment.
+ */
+export class IssueSectionsRenderer {
+    constructor(
+        private app: App,
+        private settings: LinearPluginSettings,
+        private linearService: LinearService,
+        private component: Component,
+        private sourcePath: string
+    ) {}
+
+    render(issueEl: HTMLElement, issue: LinearIssue, show: IssueSection[]) {
+        for (const section of Object.keys(SECTION_TITLES) as RelatedSection[]) {
+            if (!show.includes(section)) continue;
+
+            const sectionEl = issueEl.createEl('details', { cls: `linear-issue-section linear-issue-${section}` });
+            const summaryEl = sectionEl.createEl('summary', { text: SECTION_TITLES[section] });
+            const bodyEl = sectionEl.createDiv({ cls: 'linear-issue-section-body' });
+
+            let loaded = false;
+            sectionEl.addEventListener('toggle', async () => {
+                if (!sectionEl.open || loaded) return;
+                loaded = true;
+                bodyEl.setText('Loading...');
+                try {
+                    const details = await this.linearService.getIssueDetails(issue.id);
+                    bodyEl.empty();
+                    const setCount = (count: number) => summaryEl.setText(`${SECTION_TITLES[section]} (${count})`);
+                    setCount(await this.renderSection(bodyEl, section, issue, details, setCount));
+                } catch (error) {
+                    log(this.settings, `Failed to load ${section} of ${issue.identifier}`, error, true);
+                    // Let the next open try again
+                    loaded = false;
+                    bodyEl.empty();
+                    bodyEl.createDiv({
+                        cls: 'linear-error',
+                        text: error instanceof Error ? error.message : String(error)
+                    });
+                }
+            });
+        }
+    }
+
+    /**
+     * Fills a section and returns the number of entries in it.
+     */
+    private async renderSection(
+        el: HTMLElement,
+        section: RelatedSection,
+        issue: LinearIssue,
+        details: IssueDetails,
+        setCount: (count: number) => void
+    ): Promise<number> {
+        switch (section) {
+            case 'comments':
+                await this.renderComments(el, issue, details.comments, setCount);
+                return details.comments.length;
+            case 'children':
+                this.renderChildren(el, details.children);
+                return details.children.length;
+            case 'relations':
+                this.renderRelations(el, details);
+                return details.relations.length;
+            case 'attachments':
+                this.renderAttachments(el, details);
+                return details.attachments.length;
+        }
+    }
+
+    private async renderComments(el: HTMLElement, issue: LinearIssue, comments: CommentNode[], setCount: (count: number) => void) {
+        const threadEl = el.createDiv({ cls: 'linear-comments' });
+        const emptyEl = comments.length ? null : threadEl.createEl('p', { cls: 'linear-issue-section-empty', text: 'No comments' });
+        let count = comments.length;
+        this.renderCommentBox(el, issue, async comment => {
+            emptyEl?.remove();
+            await this.renderComment(threadEl, comment);
+            setCount(++count);
+        });
+
+        const ids = new Set(comments.map(comment => comment.id));
+        const replies = new Map<string, CommentNode[]>();
+        for (const comment of comments) {
+            if (comment.parentId && ids.has(comment.parentId)) {
+                replies.set(comment.parentId, (replies.get(comment.parentId) ?? []).concat(comment));
+            }
+        }
+
+        const renderThread = async (parentEl: HTMLElement, comment: CommentNode) => {
+            const commentEl = await this.renderComment(parentEl, comment);
+            const threadReplies = replies.get(comment.id);
+            if (threadReplies) {
+                const repliesEl = commentEl.createDiv({ cls: 'linear-comment-replies' });
+                for (const reply of threadReplies) {
+                    await renderThread(repliesEl, reply);
+                }
+            }
+        };
+
+        for (const comment of comments) {
+            if (!comment.parentId || !ids.has(comment.parentId)) {
+                await renderThread(threadEl, comment);
+            }
+        }
+    }
+
+    private async renderComment(el: HTMLElement, comment: CommentNode): Promise<HTMLElement> {
+        const commentEl = el.createDiv({ cls: 'linear-comment' });
+        const metaEl = commentEl.createDiv({ cls: 'linear-comment-meta' });
+        metaEl.createSpan({ cls: 'linear-comment-author', text: comment.author });
+        metaEl.createSpan({ cls: 'linear-comment-time', text: new Date(comment.createdAt).toLocaleString() });
+        const bodyEl = commentEl.createDiv({ cls: 'linear-comment-body' });
+        await MarkdownRenderer.render(this.app, comment.body, bodyEl, this.sourcePath, this.component);
+        return commentEl;
+    }
+
+    private renderCommentBox(el: HTMLElement, issue: LinearIssue, onPosted: (comment: CommentNode) => Promise<void>) {
+        const formEl = el.createDiv({ cls: 'linear-comment-box' });
+        const inputEl = formEl.createEl('textarea', { attr: { rows: '3', placeholder: 'Leave a comment...' } });
+        const button = formEl.createEl('button', { text: 'Comment' });
+
+        button.addEventListener('click', async () => {
+            const body = inputEl.value.trim();
+            if (!body) return;
+
+            button.disabled = true;
+            try {
+                const comment = await this.linearService.createComment(
+                    issue.id,
+                    this.settings.commentNoteLink ? appendNoteLink(this.app, body, this.sourcePath) : body
+                );
+                inputEl.value = '';
+                await onPosted(comment);
+            } catch (error) {
+                log(this.settings, `Failed to comment on ${issue.identifier}`, error, true);
+                new Notice(`Failed to comment on ${issue.identifier}: ${error instanceof Error ? error.message : String(error)}`);
+            } finally {
+                button.disabled = false;
+            }
+        });
+    }
+
+    private renderIssueLink(el: HTMLElement, issue: IssueSummary) {
+        const statusEl = el.createSpan({ cls: 'linear-chip-status' });
+        if (issue.state) {
+            statusEl.style.setProperty('--linear-state-color', issue.state.color);
+            statusEl.setAttribute('aria-label', issue.state.name);
+        }
+        const link = el.createEl('a', { cls: 'linear-related-issue', href: issue.url, text: `${issue.identifier} ${issue.title}` });
+        link.setAttribute('target', '_blank');
+    }
+
+    private renderChildren(el: HTMLElement, children: IssueSummary[]) {
+        if (!children.length) {
+            el.createEl('p', { cls: 'linear-issue-section-empty', text: 'No sub-issues' });
+            return;
+        }
+
+        const listEl = el.createEl('ul', { cls: 'contains-task-list' });
+        for (const child of children) {
+            const done = child.state?.type === 'completed';
+            const itemEl = listEl.createEl('li', { cls: 'task-list-item linear-child-issue' });
+            itemEl.toggleClass('is-checked', done);
+            const checkbox = itemEl.createEl('input', { cls: 'task-list-item-checkbox', type: 'checkbox' });
+            checkbox.checked = done;
+            checkbox.disabled = true;
+            this.renderIssueLink(itemEl, child);
+            if (child.state) {
+                itemEl.createSpan({ cls: 'linear-child-issue-state', text: child.state.name });
+            }
+        }
+    }
+
+    private renderRelations(el: HTMLElement, details: IssueDetails) {
+        if (!details.relations.length) {
+            el.createEl('p', { cls: 'linear-issue-section-empty', text: 'No related issues' });
+            return;
+        }
+
+        for (const kind of Object.keys(RELATION_TITLES) as RelationKind[]) {
+            const relations = details.relations.filter(relation => relation.kind === kind);
+            if (!relations.length) continue;
+
+            el.createDiv({ cls: 'linear-relation-kind', text: RELATION_TITLES[kind] });
+            const listEl = el.createEl('ul', { cls: `linear-relations linear-relations-${kind}` });
+            for (const relation of relations) {
+                this.renderIssueLink(listEl.createEl('li'), relation.issue);
+            }
+        }
+    }
+
+    private renderAttachments(el: HTMLElement, details: IssueDetails) {
+        if (!details.attachments.length) {
+            el.createEl('p', { cls: 'linear-issue-section-empty', text: 'No attachments' });
+            return;
+        }
+
+        const listEl = el.createEl('ul', { cls: 'linear-attachments' });
+        for (const attachment of details.attachments) {
+            const itemEl = listEl.createEl('li');
+            const link = itemEl.createEl('a', { href: attachment.url, text: attachment.title || attachment.url });
+            link.setAttribute('target', '_blank');
+            if (attachment.subtitle) {
+                itemEl.createSpan({ cls: 'linear-attachment-subtitle', text: attachment.subtitle });
+            }
+        }
+    }
+}
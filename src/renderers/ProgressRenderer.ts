@@ -0,0 +1,145 @@
+import { LinearService, LinearIssue, STATE_TYPE_ORDER } from "../services/LinearService";
+import { LinearPluginSettings } from '../settings';
+import { log } from '../log';
+
+const STATE_TYPE_NAMES: Record<string, string> = {
+    triage: 'Triage',
+    backlog: 'Backlog',
+    unstarted: 'Todo',
+    started: 'In progress',
+    completed: 'Completed',
+    canceled: 'Canceled'
+};
+
+// Types shown as filled parts of the progress bar, in order
+const BAR_TYPES = ['completed', 'started'];
+
+const DAY = 24 * 60 * 60 * 1000;
+
+interface TypeTotals {
+    issues: number;
+    points: number;
+}
+
+interface Target {
+    label: string;
+    date: Date;
+}
+
+/**
+ * Summary of how far the block's issues are: scope, completed and remaining
+ * issues and estimate points per workflow state type, and the time left until
+ * the end of their cycle or the target date of their project. Canceled issues
+ * don't count towards the scope, as in Linear.
+ */
+export class ProgressRenderer {
+    constructor(private settings: LinearPluginSettings, private linearService: LinearService) {}
+
+    async render(container: HTMLElement, issues: LinearIssue[]) {
+        const totals = new Map<string, TypeTotals>();
+        for (const issue of issues) {
+            const type = issue.state?.type ?? 'backlog';
+            const typeTotals = totals.get(type) ?? { issues: 0, points: 0 };
+            typeTotals.issues++;
+            typeTotals.points += issue.estimate ?? 0;
+            totals.set(type, typeTotals);
+        }
+
+        const canceled = totals.get('canceled') ?? { issues: 0, points: 0 };
+        const completed = totals.get('completed') ?? { issues: 0, points: 0 };
+        const scope = {
+            issues: issues.length - canceled.issues,
+            points: issues.reduce((sum, issue) => sum + (issue.estimate ?? 0), 0) - canceled.points
+        };
+        // Estimates give a truer picture when the issues have them
+        const byPoints = scope.points > 0;
+        const share = (typeTotals: TypeTotals) => {
+            const total = byPoints ? scope.points : scope.issues;
+            return total ? (byPoints ? typeTotals.points : typeTotals.issues) / total : 0;
+        };
+
+        const progressEl = container.createDiv({ cls: 'linear-progress' });
+        const headerEl = progressEl.createDiv({ cls: 'linear-progress-header' });
+        headerEl.createSpan({ cls: 'linear-progress-percent', text: `${Math.round(share(completed) * 100)}%` });
+        headerEl.createSpan({
+            cls: 'linear-progress-scope',
+            text: `${completed.issues} of ${scope.issues} issues completed` +
+                (byPoints ? ` · ${completed.points} of ${scope.points} points` : '')
+        });
+
+        const barEl = progressEl.createDiv({ cls: 'linear-progress-bar' });
+        for (const type of BAR_TYPES) {
+            const typeTotals = totals.get(type);
+            if (!typeTotals) continue;
+            const segmentEl = barEl.createDiv({ cls: `linear-progress-segment linear-state-type-${type}` });
+            segmentEl.style.width = `${share(typeTotals) * 100}%`;
+            segmentEl.setAttribute('aria-label', STATE_TYPE_NAMES[type]);
+        }
+
+        const target = await this.findTarget(issues);
+        if (target) {
+            this.renderTarget(progressEl, target);
+        }
+
+        const tableEl = progressEl.createEl('table', { cls: 'linear-progress-table' });
+        const headerRow = tableEl.createEl('thead').createEl('tr');
+        for (const title of ['', 'Issues', 'Points']) {
+            headerRow.createEl('th', { text: title });
+        }
+        const bodyEl = tableEl.createEl('tbody');
+        for (const type of STATE_TYPE_ORDER) {
+            const typeTotals = totals.get(type);
+            if (!typeTotals) continue;
+            const rowEl = bodyEl.createEl('tr', { cls: `linear-state-type-${type}` });
+            rowEl.createEl('td', { text: STATE_TYPE_NAMES[type] });
+            rowEl.createEl('td', { text: String(typeTotals.issues) });
+            rowEl.createEl('td', { text: String(typeTotals.points) });
+        }
+        const remainingRow = bodyEl.createEl('tr', { cls: 'linear-progress-remaining' });
+        remainingRow.createEl('td', { text: 'Remaining' });
+        remainingRow.createEl('td', { text: String(scope.issues - completed.issues) });
+        remainingRow.createEl('td', { text: String(scope.points - completed.points) });
+    }
+
+    private renderTarget(el: HTMLElement, target: Target) {
+        const today = new Date();
+        today.setHours(0, 0, 0, 0);
+        const days = Math.ceil((target.date.getTime() - today.getTime()) / DAY);
+        const left = days > 0 ? `${days} ${days === 1 ? 'day' : 'days'} left`
+            : days === 0 ? 'Due today'
+            : `${-days} ${days === -1 ? 'day' : 'days'} overdue`;
+
+        const targetEl = el.createDiv({ cls: 'linear-progress-target' });
+        targetEl.createSpan({ text: `${target.label} ${target.date.toLocaleDateString()}` });
+        targetEl.createSpan({ cls: `linear-progress-days${days < 0 ? ' is-overdue' : ''}`, text: left });
+    }
+
+    /**
+     * The end of the cycle all issues belong to, or else the target date of
+     * their shared project.
+     */
+    private async findTarget(issues: LinearIssue[]): Promise<Target | null> {
+        if (!issues.length) return null;
+
+        try {
+            const cycleId = issues[0].cycle?.id;
+            if (cycleId && issues.every(issue => issue.cycle?.id === cycleId)) {
+                const cycle = (await this.linearService.getCycles()).find(cycle => cycle.id === cycleId);
+                if (cycle) {
+                    return { label: `Cycle ${cycle.number} ends`, date: new Date(cycle.endsAt) };
+                }
+            }
+
+            const projectId = issues[0].project?.id;
+            if (projectId && issues.every(issue => issue.project?.id === projectId)) {
+                const project = (await this.linearService.getProjects()).find(project => project.id === projectId);
+                if (project?.targetDate) {
+                    return { label: `${project.name} target`, date: new Date(`${project.targetDate}T00:00:00`) };
+                }
+            }
+        } catch (error) {
+            log(this.settings, 'Failed to load cycle or project for progress', error, true);
+        }
+        return null;
+    }
+}
@@ -0,0 +1,150 @@
+import { LinearIssue } from "../services/LinearService";
+import { IssueColumn, COLUMN_TITLES, priorityLabel, dueDateBadge } from './display';
+import { IssueEditor, IssueChangeHandler } from './IssueEditor';
+
+// Urgent first, "no priority" last
+const PRIORITY_ORDER = [5, 1, 2, 3, 4];
+
+type SortValue = string | number | null;
+
+/**
+ * Compact table of issues. Clicking a column header sorts the rows by that column.
+ */
+export class TableRenderer {
+    private sortColumn: IssueColumn | null = null;
+    private sortDirection: 1 | -1 = 1;
+
+    constructor(private columns: IssueColumn[], private editor: IssueEditor | null = null) {}
+
+    render(container: HTMLElement, issues: LinearIssue[]) {
+        const tableEl = container.createEl('table', { cls: 'linear-issues-table' });
+        const headerRow = tableEl.createEl('thead').createEl('tr');
+        const bodyEl = tableEl.createEl('tbody');
+
+        for (const column of this.columns) {
+            const headerEl = headerRow.createEl('th', { text: COLUMN_TITLES[column] });
+            headerEl.addEventListener('click', () => {
+                this.sortDirection = this.sortColumn === column ? (this.sortDirection === 1 ? -1 : 1) : 1;
+                this.sortColumn = column;
+                headerRow.querySelectorAll('th').forEach(th => th.removeClass('is-sorted-asc', 'is-sorted-desc'));
+                headerEl.addClass(this.sortDirection === 1 ? 'is-sorted-asc' : 'is-sorted-desc');
+                this.renderRows(bodyEl, issues);
+            });
+        }
+
+        this.renderRows(bodyEl, issues);
+    }
+
+    private renderRows(bodyEl: HTMLElement, issues: LinearIssue[]) {
+        bodyEl.empty();
+        // Edits can change the sort order, so redraw every row
+        const onChange = () => this.renderRows(bodyEl, issues);
+        const editor = this.editor;
+
+        for (const issue of this.sorted(issues)) {
+            const rowEl = bodyEl.createEl('tr', { cls: 'linear-issue-row' });
+            for (const column of this.columns) {
+                const cellEl = rowEl.createEl('td', { cls: `linear-cell-${column}` });
+                this.renderCell(cellEl, issue, column);
+                if (editor) {
+                    this.makeEditable(editor, cellEl, issue, column, onChange);
+                }
+            }
+            if (editor) {
+                rowEl.addEventListener('contextmenu', evt => editor.openMenu(evt, issue, onChange));
+            }
+        }
+    }
+
+    private makeEditable(editor: IssueEditor, cellEl: HTMLElement, issue: LinearIssue, column: IssueColumn, onChange: IssueChangeHandler) {
+        let edit: ((evt: MouseEvent) => void) | null = null;
+        switch (column) {
+            case 'status':
+                edit = evt => editor.editStatus(evt, issue, onChange);
+                break;
+            case 'assignee':
+                edit = () => editor.editAssignee(issue, onChange);
+                break;
+            case 'priority':
+                edit = evt => editor.editPriority(evt, issue, onChange);
+                break;
+            case 'dueDate':
+                edit = () => editor.editDueDate(issue, onChange);
+                break;
+        }
+        if (edit) {
+            cellEl.addClass('is-editable');
+            cellEl.addEventListener('click', edit);
+        }
+    }
+
+    private renderCell(cellEl: HTMLElement, issue: LinearIssue, column: IssueColumn) {
+        switch (column) {
+            case 'identifier': {
+                const link = cellEl.createEl('a', { href: issue.url, text: issue.identifier });
+                link.setAttribute('target', '_blank');
+                break;
+            }
+            case 'title':
+                cellEl.setText(issue.title);
+                break;
+            case 'status':
+                if (issue.state) {
+                    cellEl.createSpan({ cls: 'linear-issue-status', text: issue.state.name })
+                        .style.setProperty('--linear-state-color', issue.state.color);
+                }
+                break;
+            case 'assignee':
+                cellEl.setText(issue.assignee?.name ?? 'Unassigned');
+                break;
+            case 'priority':
+                cellEl.setText(priorityLabel(issue.priority));
+                break;
+            case 'estimate':
+                cellEl.setText(issue.estimate !== undefined ? String(issue.estimate) : '');
+                break;
+            case 'dueDate':
+                if (issue.dueDate) {
+                    const badge = dueDateBadge(issue.dueDate);
+                    cellEl.createSpan({ cls: `linear-issue-due-date ${badge.cls}`, text: badge.text });
+                }
+                break;
+            case 'labels':
+                for (const label of issue.labels) {
+                    cellEl.createSpan({ cls: 'linear-issue-label', text: label.name });
+                }
+                break;
+        }
+    }
+
+    private sortValue(issue: LinearIssue, column: IssueColumn): SortValue {
+        switch (column) {
+            case 'identifier': return issue.identifier;
+            case 'title': return issue.title.toLowerCase();
+            case 'status': return issue.state?.name.toLowerCase() ?? null;
+            case 'assignee': return issue.assignee?.name.toLowerCase() ?? null;
+            case 'priority': return PRIORITY_ORDER[issue.priority] ?? null;
+            case 'estimate': return issue.estimate ?? null;
+            case 'dueDate': return issue.dueDate ? new Date(issue.dueDate).getTime() : null;
+            case 'labels': return issue.labels.map(label => label.name.toLowerCase()).join(', ') || null;
+        }
+    }
+
+    private sorted(issues: LinearIssue[]): LinearIssue[] {
+        const column = this.sortColumn;
+        if (!column) return issues;
+
+        return issues.slice().sort((a, b) => {
+            const valueA = this.sortValue(a, column);
+            const valueB = this.sortValue(b, column);
+            // Empty values stay at the bottom in both directions
+            if (valueA === null && valueB === null) return 0;
+            if (valueA === null) return 1;
+            if (valueB === null) return -1;
+            if (typeof valueA === 'number' && typeof valueB === 'number') {
+                return (valueA - valueB) * this.sortDirection;
+            }
+            return String(valueA).localeCompare(String(valueB), undefined, { numeric: true }) * this.sortDirection;
+        });
+    }
+}
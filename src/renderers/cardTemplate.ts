@@ -0,0 +1,62 @@
+import { LinearIssue } from '../services/LinearService';
+import { DisplayOptions, dueDateBadge, priorityLabel } from './display';
+
+/**
+ * Placeholders of card templates, as listed in settings.
+ */
+export const CARD_PLACEHOLDERS = [
+    'identifier', 'title', 'url', 'link', 'description', 'status', 'statusBadge', 'statusType',
+    'assignee', 'assigneeEmail', 'team', 'teamKey', 'project', 'cycle', 'priority', 'estimate',
+    'due', 'dueDate', 'labels', 'createdAt', 'updatedAt', 'completedAt'
+] as const;
+
+// Block option value that picks the built-in card over the template in settings
+export const BUILT_IN_CARD = 'default';
+
+function escapeHtml(text: string): string {
+    return text.replace(/[&<>"']/g, char => `&#${char.charCodeAt(0)};`);
+}
+
+/**
+ * The template a block's cards use, or null for the built-in card.
+ */
+export function cardTemplate(display: DisplayOptions, globalTemplate: string): string | null {
+    const template = display.template ?? globalTemplate;
+    return template.trim() && template.trim().toLowerCase() !== BUILT_IN_CARD ? template : null;
+}
+
+/**
+ * Values for the placeholders of a card template. Values are Markdown; the
+ * status badge is HTML, coloured by the renderer from its `data-state-color`.
+ */
+export function cardValues(issue: LinearIssue, display: DisplayOptions): Record<typeof CARD_PLACEHOLDERS[number], string> {
+    const { state } = issue;
+    // Linear's colours are hex codes, anything else is left uncoloured
+    const color = state && /^#[0-9a-f]{3,8}$/i.test(state.color) ? state.color : '';
+    return {
+        identifier: issue.identifier,
+        title: issue.title,
+        url: issue.url,
+        link: `[${issue.identifier}: ${issue.title.replace(/[[\]]/g, '\\$&')}](${issue.url})`,
+        description: display.hideDescription ? '' : issue.description ?? '',
+        status: state?.name ?? '',
+        statusBadge: state
+            ? `<span class="linear-issue-status" data-state-color="${color}">${escapeHtml(state.name)}</span>`
+            : '',
+        statusType: state?.type ?? '',
+        assignee: issue.assignee?.name ?? '',
+        assigneeEmail: issue.assignee?.email ?? '',
+        team: issue.team?.name ?? '',
+        teamKey: issue.team?.key ?? '',
+        project: issue.project?.name ?? '',
+        cycle: issue.cycle ? issue.cycle.name ?? `Cycle ${issue.cycle.number}` : '',
+        priority: priorityLabel(issue.priority),
+        estimate: issue.estimate !== undefined ? String(issue.estimate) : '',
+        due: dueDateBadge(issue.dueDate).text,
+        dueDate: issue.dueDate ? new Date(issue.dueDate).toLocaleDateString() : '',
+        labels: issue.labels.map(label => label.name).join(', '),
+        createdAt: issue.createdAt.slice(0, 10),
+        updatedAt: issue.updatedAt.slice(0, 10),
+        completedAt: issue.completedAt?.slice(0, 10) ?? ''
+    };
+}
@@ -0,0 +1,62 @@
+export const VIEW_MODES = ['list', 'table', 'board', 'progress'] as const;
+export const ISSUE_COLUMNS = ['identifier', 'title', 'status', 'assignee', 'priority', 'estimate', 'dueDate', 'labels'] as const;
+export const GROUP_BY_FIELDS = ['state', 'assignee', 'project', 'priority'] as const;
+export const ISSUE_SECTIONS = ['comments', 'children', 'relations', 'attachments', 'labels', 'assignee', 'priority', 'estimate'] as const;
+
+export type ViewMode = typeof VIEW_MODES[number];
+export type IssueColumn = typeof ISSUE_COLUMNS[number];
+export type GroupByField = typeof GROUP_BY_FIELDS[number];
+export type IssueSection = typeof ISSUE_SECTIONS[number];
+
+/**
+ * How a block presents its issues. Kept apart from `IssueOptions` so that
+ * blocks showing the same query differently share one cached result.
+ */
+export interface DisplayOptions {
+    view?: ViewMode;
+    columns?: IssueColumn[];
+    groupBy?: GroupByField;
+    show?: IssueSection[]; // extra fields and sections on cards
+    hideDescription?: boolean;
+    template?: string; // Markdown for cards, overriding the one in settings
+}
+
+export const DEFAULT_COLUMNS: IssueColumn[] = ['identifier', 'title', 'status', 'assignee', 'priority', 'dueDate'];
+
+export const COLUMN_TITLES: Record<IssueColumn, string> = {
+    identifier: 'ID',
+    title: 'Title',
+    status: 'Status',
+    assignee: 'Assignee',
+    priority: 'Priority',
+    estimate: 'Estimate',
+    dueDate: 'Due date',
+    labels: 'Labels'
+};
+
+const PRIORITY_LABELS = ['No priority', 'Urgent', 'High', 'Medium', 'Low'];
+
+export function priorityLabel(priority: number): string {
+    return PRIORITY_LABELS[priority] ?? PRIORITY_LABELS[0];
+}
+
+export function dueDateBadge(value?: string): { text: string; cls: string } {
+    if (!value) {
+        return { text: '📅 No due date', cls: 'no-date' };
+    }
+
+    const dueDate = new Date(value);
+    const today = new Date();
+    today.setHours(0, 0, 0, 0);
+    const tomorrow = new Date(today);
+    tomorrow.setDate(tomorrow.getDate() + 1);
+
+    if (dueDate.toDateString() === today.toDateString()) {
+        return { text: '📅 Due Today', cls: 'due-today' };
+    } else if (dueDate.toDateString() === tomorrow.toDateString()) {
+        return { text: '📅 Due Tomorrow', cls: 'due-tomorrow' };
+    } else if (dueDate < today) {
+        return { text: `⚠️ Overdue: ${dueDate.toLocaleDateString()}`, cls: 'overdue' };
+    }
+    return { text: `📅 Due: ${dueDate.toLocaleDateString()}`, cls: 'upcoming' };
+}
@@ -0,0 +1,59 @@
+import { WorkspaceProfile, WorkspaceCredentials, credentialsOf } from '../settings';
+
+const KEY_PREFIX = 'linear-plugin-credentials';
+
+/**
+ * Keeps workspace credentials in this device's local storage instead of the
+ * plugin's data file, which is often synced or committed along with the vault.
+ * Each device keeps its own credentials.
+ */
+export class CredentialStore {
+    constructor(private vaultName: string) {}
+
+    private get prefix(): string {
+        return `${KEY_PREFIX}:${this.vaultName}:`;
+    }
+
+    /**
+     * Fills in the stored credentials of a profile, leaving any it already has.
+     */
+    load(profile: WorkspaceProfile) {
+        const stored = window.localStorage.getItem(this.prefix + profile.id);
+        if (!stored) return;
+
+        try {
+            const credentials = JSON.parse(stored) as Partial<WorkspaceCredentials>;
+            profile.apiKey = profile.apiKey || credentials.apiKey || '';
+            profile.accessToken ??= credentials.accessToken;
+            profile.refreshToken ??= credentials.refreshToken;
+            profile.tokenExpiresAt ??= credentials.tokenExpiresAt;
+        } catch {
+            // Unreadable credentials are as good as none
+        }
+    }
+
+    /**
+     * Stores the credentials of every profile, and forgets those of profiles
+     * that were removed.
+     */
+    save(profiles: WorkspaceProfile[]) {
+        const keys = new Set<string>();
+        for (const profile of profiles) {
+            const key = this.prefix + profile.id;
+            keys.add(key);
+            const credentials = credentialsOf(profile);
+            if (credentials.apiKey || credentials.accessToken) {
+                window.localStorage.setItem(key, JSON.stringify(credentials));
+            } else {
+                window.localStorage.removeItem(key);
+            }
+        }
+
+        for (let index = window.localStorage.length - 1; index >= 0; index--) {
+            const key = window.localStorage.key(index);
+            if (key?.startsWith(this.prefix) && !keys.has(key)) {
+                window.localStorage.removeItem(key);
+            }
+        }
+    }
+}
@@ -0,0 +1,186 @@
+import { ObsidianProtocolData, requestUrl } from "obsidian";
+import { LinearPluginSettings, WorkspaceProfile } from '../settings';
+import { log } from '../log';
+import { requestFailure } from './LinearServiceError';
+
+// Obsidian URI action that Linear redirects to after sign-in
+export const OAUTH_ACTION = 'linear-auth';
+const REDIRECT_URI = `obsidian://${OAUTH_ACTION}`;
+
+const AUTHORIZE_URL = 'https://linear.app/oauth/authorize';
+const TOKEN_URL = 'https://api.linear.app/oauth/token';
+const REVOKE_URL = 'https://api.linear.app/oauth/revoke';
+const SCOPES = 'read,write';
+
+// Tokens are refreshed when they expire within this many milliseconds
+const REFRESH_MARGIN = 5 * 60 * 1000;
+
+interface PendingSignIn {
+    profileId: string;
+    state: string;
+    verifier: string;
+}
+
+interface TokenResponse {
+    access_token: string;
+    refresh_token?: string;
+    expires_in?: number; // seconds
+}
+
+function base64Url(bytes: Uint8Array): string {
+    let binary = '';
+    bytes.forEach(byte => binary += String.fromCharCode(byte));
+    return btoa(binary).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+}
+
+function randomString(): string {
+    return base64Url(crypto.getRandomValues(new Uint8Array(32)));
+}
+
+async function codeChallenge(verifier: string): Promise<string> {
+    const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(verifier));
+    return base64Url(new Uint8Array(digest));
+}
+
+/**
+ * Signs workspaces in with Linear through OAuth2 with PKCE, so no client
+ * secret is needed. Linear redirects back to Obsidian through an `obsidian://`
+ * URI, and access tokens are refreshed shortly before they expire.
+ */
+export class LinearAuth {
+    private pending: PendingSignIn | null = null;
+    private refreshing: Map<string, Promise<void>> = new Map(); // by profile id
+
+    constructor(private settings: LinearPluginSettings, private onTokensChanged: () => void) {}
+
+    /**
+     * Opens Linear's consent page in the browser for the profile to sign in.
+     */
+    async signIn(profile: WorkspaceProfile) {
+        if (!this.settings.oauthClientId) {
+            throw new Error('enter the client ID of your Linear OAuth application first');
+        }
+
+        const verifier = randomString();
+        this.pending = { profileId: profile.id, state: randomString(), verifier };
+        const params = new URLSearchParams({
+            client_id: this.settings.oauthClientId,
+            redirect_uri: REDIRECT_URI,
+            response_type: 'code',
+            scope: SCOPES,
+            state: this.pending.state,
+            code_challenge: await codeChallenge(verifier),
+            code_challenge_method: 'S256',
+            prompt: 'consent'
+        });
+        log(this.settings, `Signing in workspace "${profile.name}"`);
+        window.open(`${AUTHORIZE_URL}?${params}`);
+    }
+
+    /**
+     * Finishes the sign-in Linear redirected back from, storing the tokens on
+     * the profile that started it. Returns that profile.
+     */
+    async completeSignIn(params: ObsidianProtocolData): Promise<WorkspaceProfile> {
+        const pending = this.pending;
+        if (!pending || params.state !== pending.state) {
+            throw new Error('the sign-in was not started from this window, try again');
+        }
+        this.pending = null;
+        if (params.error) {
+            throw new Error(params.error_description || params.error);
+        }
+
+        const profile = this.settings.workspaces.find(profile => profile.id === pending.profileId);
+        if (!profile) {
+            throw new Error('the workspace was removed while signing in');
+        }
+
+        const tokens = await this.requestTokens({
+            grant_type: 'authorization_code',
+            code: params.code,
+            redirect_uri: REDIRECT_URI,
+            client_id: this.settings.oauthClientId,
+            code_verifier: pending.verifier
+        });
+        this.storeTokens(profile, tokens);
+        log(this.settings, `Signed in workspace "${profile.name}"`);
+        return profile;
+    }
+
+    /**
+     * Refreshes the profile's access token if it is about to expire. Concurrent
+     * calls share one refresh.
+     */
+    async ensureFreshToken(profile: WorkspaceProfile) {
+        if (!profile.tokenExpiresAt || profile.tokenExpiresAt - Date.now() > REFRESH_MARGIN) return;
+
+        let refresh = this.refreshing.get(profile.id);
+        if (!refresh) {
+            refresh = this.refresh(profile).finally(() => this.refreshing.delete(profile.id));
+            this.refreshing.set(profile.id, refresh);
+        }
+        await refresh;
+    }
+
+    private async refresh(profile: WorkspaceProfile) {
+        if (!profile.refreshToken) {
+            throw new Error(`the Linear sign-in of workspace "${profile.name}" expired, sign in again in settings`);
+        }
+
+        log(this.settings, `Refreshing access token of workspace "${profile.name}"`);
+        const tokens = await this.requestTokens({
+            grant_type: 'refresh_token',
+            refresh_token: profile.refreshToken,
+            client_id: this.settings.oauthClientId
+        });
+        this.storeTokens(profile, tokens);
+    }
+
+    /**
+     * Revokes the profile's token with Linear and forgets it. The token is
+     * forgotten even when Linear can't be reached.
+     */
+    async signOut(profile: WorkspaceProfile) {
+        const token = profile.accessToken;
+        profile.accessToken = undefined;
+        profile.refreshToken = undefined;
+        profile.tokenExpiresAt = undefined;
+        if (!token) return;
+
+        try {
+            await requestUrl({
+                url: REVOKE_URL,
+                method: 'POST',
+                headers: { Authorization: `Bearer ${token}` }
+            });
+        } catch (error) {
+            log(this.settings, 'Failed to revoke Linear token', error, true);
+        }
+    }
+
+    private storeTokens(profile: WorkspaceProfile, tokens: TokenResponse) {
+        profile.accessToken = tokens.access_token;
+        profile.refreshToken = tokens.refresh_token ?? profile.refreshToken;
+        profile.tokenExpiresAt = tokens.expires_in ? Date.now() + tokens.expires_in * 1000 : undefined;
+        this.onTokensChanged();
+    }
+
+    private async requestTokens(body: Record<string, string>): Promise<TokenResponse> {
+        const response = await requestUrl({
+            url: TOKEN_URL,
+            method: 'POST',
+            contentType: 'application/x-www-form-urlencoded',
+            body: new URLSearchParams(body).toString(),
+            throw: false
+        }).catch(error => {
+            throw requestFailure(error);
+        });
+        if (response.status >= 400 || !response.json?.access_token) {
+            // Token responses are left out of the log, as they may hold tokens
+            log(this.settings, `Linear token request failed with status ${response.status}`, undefined, true);
+            throw new Error(response.json?.error_description ?? `Linear answered with status ${response.status}`);
+        }
+        return response.json as TokenResponse;
+    }
+}
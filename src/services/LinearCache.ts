@@ -0,0 +1,76 @@
+export type CacheNamespace = 'issues' | 'teams' | 'states' | 'users' | 'labels' | 'projects' | 'cycles' | 'details';
+
+export interface CacheEntry<T> {
+    value: T;
+    timestamp: number;
+}
+
+export type CacheData = Record<CacheNamespace, Record<string, CacheEntry<unknown>>>;
+
+const NAMESPACES: CacheNamespace[] = ['issues', 'teams', 'states', 'users', 'labels', 'projects', 'cycles', 'details'];
+
+// Entries older than this are dropped when the cache is loaded from disk
+const MAX_ENTRY_AGE = 30 * 24 * 60 * 60 * 1000; // 30 days in milliseconds
+
+/**
+ * Plugin-wide store of Linear query results. Entries are kept past their TTL so
+ * blocks can render the last known data while offline; freshness is decided by
+ * the caller.
+ */
+export class LinearCache {
+    private data: CacheData;
+
+    constructor(data: Partial<CacheData> | undefined, private onChange: () => void) {
+        this.data = LinearCache.emptyData();
+        if (data) {
+            const cutoff = Date.now() - MAX_ENTRY_AGE;
+            for (const namespace of NAMESPACES) {
+                for (const [key, entry] of Object.entries(data[namespace] ?? {})) {
+                    if (entry && typeof entry.timestamp === 'number' && entry.timestamp > cutoff) {
+                        this.data[namespace][key] = entry;
+                    }
+                }
+            }
+        }
+    }
+
+    private static emptyData(): CacheData {
+        return { issues: {}, teams: {}, states: {}, users: {}, labels: {}, projects: {}, cycles: {}, details: {} };
+    }
+
+    get<T>(namespace: CacheNamespace, key: string): CacheEntry<T> | null {
+        const entry = this.data[namespace][key];
+        return entry ? entry as CacheEntry<T> : null;
+    }
+
+    set<T>(namespace: CacheNamespace, key: string, value: T): CacheEntry<T> {
+        const entry: CacheEntry<T> = { value, timestamp: Date.now() };
+        this.data[namespace][key] = entry;
+        this.onChange();
+        return entry;
+    }
+
+    /**
+     * Rewrites every entry of a namespace in place, keeping its timestamp.
+     */
+    update(namespace: CacheNamespace, fn: (value: unknown, key: string) => unknown) {
+        for (const [key, entry] of Object.entries(this.data[namespace])) {
+            entry.value = fn(entry.value, key);
+        }
+        this.onChange();
+    }
+
+    invalidate(namespace: CacheNamespace) {
+        this.data[namespace] = {};
+        this.onChange();
+    }
+
+    clear() {
+        this.data = LinearCache.emptyData();
+        this.onChange();
+    }
+
+    toJSON(): CacheData {
+        return this.data;
+    }
+}
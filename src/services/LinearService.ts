@@ -1,11 +1,22 @@
-import { LinearClient, Issue, Team, WorkflowState, LinearRawResponse } from "@linear/sdk";
-import { Notice } from "obsidian";
-import { LinearPluginSettings } from '../settings';
+import { LinearClient, LinearRawResponse, LinearDocument } from "@linear/sdk";
+import { LinearPluginSettings, WorkspaceProfile } from '../settings';
+import { log } from '../log';
+import { LinearCache, CacheEntry, CacheNamespace } from './LinearCache';
+import { RequestQueue } from './RequestQueue';
+import { LinearAuth } from './LinearAuth';
+import { LinearServiceError, requestFailure, toServiceError } from './LinearServiceError';
+import { FilterValue, DateFilter, resolveDateExpression } from '../query/filters';
+import { SortSpec } from '../query/sorting';
 
-interface WorkflowStateNode {
+type IssueFilter = LinearDocument.IssueFilter;
+type UserFilter = LinearDocument.NullableUserFilter;
+
+export interface WorkflowStateNode {
     id: string;
     name: string;
     type: string;
+    color: string;
+    position: number;
     team?: {
         id: string;
         name: string;
@@ -22,335 +33,1461 @@ interface WorkflowStateQueryResponse {
     };
 }
 
+export interface TeamNode {
+    id: string;
+    name: string;
+    key: string;
+}
+
+export interface UserNode {
+    id: string;
+    name: string;
+    email: string;
+}
+
+export interface LabelNode {
+    id: string;
+    name: string;
+    color: string;
+    teamId?: string; // unset for workspace labels
+}
+
+export interface ProjectNode {
+    id: string;
+    name: string;
+    targetDate?: string; // YYYY-MM-DD
+}
+
+export interface CycleNode {
+    id: string;
+    number: number;
+    name?: string;
+    startsAt: string;
+    endsAt: string;
+    teamId?: string;
+}
+
+/**
+ * Where to look for completed issues: one team, project or cycle.
+ */
+export interface CompletedIssuesScope {
+    teamId?: string;
+    projectId?: string;
+    cycleId?: string;
+}
+
+/**
+ * Plain snapshot of an issue. Unlike the SDK's `Issue` it has no lazy relations,
+ * so it can be cached and persisted to disk.
+ */
+export interface LinearIssue {
+    id: string;
+    identifier: string;
+    title: string;
+    description?: string;
+    url: string;
+    dueDate?: string;
+    priority: number;
+    createdAt: string;
+    updatedAt: string;
+    completedAt?: string;
+    estimate?: number;
+    state?: {
+        id: string;
+        name: string;
+        type: string;
+        color: string;
+    };
+    assignee?: UserNode;
+    team?: TeamNode;
+    project?: {
+        id: string;
+        name: string;
+    };
+    cycle?: {
+        id: string;
+        number: number;
+        name?: string;
+    };
+    labels: {
+        id: string;
+        name: string;
+        color: string;
+    }[];
+}
+
+/**
+ * Issue fields requested with every issue, so an issue and everything shown
+ * on its card arrive in a single request.
+ */
+const ISSUE_FIELDS = `
+    id
+    identifier
+    title
+    description
+    url
+    dueDate
+    priority
+    estimate
+    createdAt
+    updatedAt
+    completedAt
+    state { id name type color }
+    assignee { id name email }
+    team { id name key }
+    project { id name }
+    cycle { id number name }
+    labels { nodes { id name color } }
+`;
+
+// An issue as returned for ISSUE_FIELDS
+interface IssueNode {
+    id: string;
+    identifier: string;
+    title: string;
+    description?: string | null;
+    url: string;
+    dueDate?: string | null;
+    priority: number;
+    estimate?: number | null;
+    createdAt: string;
+    updatedAt: string;
+    completedAt?: string | null;
+    state?: { id: string; name: string; type: string; color: string } | null;
+    assignee?: UserNode | null;
+    team?: TeamNode | null;
+    project?: { id: string; name: string } | null;
+    cycle?: { id: string; number: number; name?: string | null } | null;
+    labels: { nodes: { id: string; name: string; color: string }[] };
+}
+
+interface Connection<T> {
+    nodes: T[];
+    pageInfo: {
+        hasNextPage: boolean;
+        endCursor?: string | null;
+    };
+}
+
+interface IssueQueryVariables {
+    first: number;
+    after?: string;
+    filter?: IssueFilter;
+    sort?: LinearDocument.IssueSortInput[];
+}
+
+// Identifiers such as ENG-123, as opposed to issue UUIDs
+const IDENTIFIER_PATTERN = /^([a-z][a-z0-9_]*)-(\d+)$/i;
+
+/**
+ * Just enough of an issue to pick it from a list of suggestions.
+ */
+export interface IssueSummary {
+    id: string;
+    identifier: string;
+    title: string;
+    url: string;
+    state?: {
+        name: string;
+        type: string;
+        color: string;
+    };
+}
+
+interface IssueSummaryConnection {
+    nodes: IssueSummary[];
+}
+
+const ISSUE_SUMMARY_FIELDS = `
+    id
+    identifier
+    title
+    url
+    state {
+        name
+        type
+        color
+    }
+`;
+
+// Suggestions returned for each search
+const SEARCH_RESULTS = 20;
+
+export interface CommentNode {
+    id: string;
+    body: string;
+    createdAt: string;
+    author: string;
+    parentId?: string; // set on replies
+}
+
+// How a related issue relates to the issue it is listed on
+export type RelationKind = 'blocks' | 'blocked-by' | 'related' | 'duplicate-of' | 'duplicated-by';
+
+export interface RelationNode {
+    kind: RelationKind;
+    issue: IssueSummary;
+}
+
+export interface AttachmentNode {
+    id: string;
+    title: string;
+    subtitle?: string;
+    url: string;
+}
+
+/**
+ * Entities related to an issue, loaded on demand for the sections of a card.
+ */
+export interface IssueDetails {
+    comments: CommentNode[];
+    children: IssueSummary[];
+    relations: RelationNode[];
+    attachments: AttachmentNode[];
+}
+
+interface IssueDetailsComment {
+    id: string;
+    body: string;
+    createdAt: string;
+    user?: { name: string } | null;
+    parent?: { id: string } | null;
+}
+
+interface IssueDetailsResponse {
+    issue: {
+        comments: { nodes: IssueDetailsComment[] };
+        children: IssueSummaryConnection;
+        relations: { nodes: { type: string; relatedIssue: IssueSummary }[] };
+        inverseRelations: { nodes: { type: string; issue: IssueSummary }[] };
+        attachments: { nodes: { id: string; title: string; subtitle?: string | null; url: string }[] };
+    } | null;
+}
+
+// Related entities loaded per section of a card
+const DETAILS_PAGE_SIZE = 50;
+
+/**
+ * One load of a query's results. `endCursor` continues the query where this
+ * load stopped when `hasNextPage` is set.
+ */
+export interface IssuePage {
+    issues: LinearIssue[];
+    hasNextPage: boolean;
+    endCursor: string | null;
+}
+
 export interface IssueOptions {
     limit?: number;
-    teamName?: string;
-    status?: string;
-    assigneeEmail?: string;
-    sorting?: {
-        field: 'date';
-        direction: 'asc' | 'desc';
-    };
-    hideDescription?: boolean;
+    team?: FilterValue;
+    status?: FilterValue;
+    assignee?: FilterValue;
+    creator?: FilterValue;
+    label?: FilterValue;
+    project?: FilterValue;
+    cycle?: FilterValue;
+    priority?: number[];
+    created?: DateFilter;
+    updated?: DateFilter;
+    due?: DateFilter;
+    sorting?: SortSpec[];
+    // Load every matching issue rather than stop at the "Maximum issues per block" setting
+    wholeScope?: boolean;
 }
 
+// Issues requested per round-trip while following a query's cursor
+const PAGE_SIZE = 100;
+
+// Linear's ordering of workflow state types on boards and menus
+export const STATE_TYPE_ORDER = ['triage', 'backlog', 'unstarted', 'started', 'completed', 'canceled'];
+
+/**
+ * Access to one Linear workspace. Each workspace profile in settings has its
+ * own service and cache.
+ */
 export class LinearService {
     private client: LinearClient | null = null;
-    private teamCache: Map<string, string> = new Map(); // name -> id mapping
-    private workflowStatesCache: {
-        timestamp: number;
-        states: WorkflowStateNode[];
-    } | null = null;
-    private readonly CACHE_TTL = 5 * 60 * 1000; // 5 minutes in milliseconds
+    private clientKey: string | null = null; // API key the client was created with
+    private queue: RequestQueue;
 
-    constructor(private settings: LinearPluginSettings) {
-        if (settings.apiKey) {
-            this.client = new LinearClient({ apiKey: settings.apiKey });
-            this.log('Service initialized with API key');
-        } else {
-            this.log('Service initialized without API key');
-        }
+    constructor(
+        private settings: LinearPluginSettings,
+        readonly profile: WorkspaceProfile,
+        private cache: LinearCache,
+        private auth: LinearAuth
+    ) {
+        this.queue = new RequestQueue(settings, profile.name);
+        log(this.settings, `Service initialized for workspace "${profile.name}"${this.isConfigured ? '' : ' without credentials'}`);
     }
 
-    private log(message: string, data?: any, isError: boolean = false) {
-        if (!this.settings.debugMode) return;
-        
-        const prefix = '🔄 Linear Plugin: ';
-        if (isError) {
-            console.error(prefix + message, data);
-        } else {
-            console.log(prefix + message, data || '');
-        }
+    get workspaceName(): string {
+        return this.profile.name;
+    }
+
+    get isConfigured(): boolean {
+        return !!(this.profile.apiKey || this.profile.accessToken);
+    }
+
+    /**
+     * Whether the workspace is reached through a Linear sign-in rather than an API key.
+     */
+    get isSignedIn(): boolean {
+        return !!this.profile.accessToken;
+    }
+
+    /**
+     * Names the workspace in messages shown to the user, once there is more than one.
+     */
+    private inWorkspace(message: string): string {
+        return this.settings.workspaces.length > 1 ? `${message} (workspace "${this.profile.name}")` : message;
     }
 
     private async ensureClient(): Promise<LinearClient> {
-        if (!this.settings.apiKey) {
-            throw new Error("Linear API key not configured");
+        if (this.profile.accessToken) {
+            try {
+                await this.auth.ensureFreshToken(this.profile);
+            } catch (error) {
+                log(this.settings, 'Failed to refresh Linear sign-in', error, true);
+                const failure = toServiceError(error);
+                throw failure.kind === 'offline'
+                    ? this.failure(failure)
+                    : new LinearServiceError('unauthorized', this.inWorkspace(failure.message));
+            }
+        }
+        const { accessToken, apiKey } = this.profile;
+        if (!accessToken && !apiKey) {
+            throw new LinearServiceError('unauthorized', this.inWorkspace("Linear API key not configured"));
         }
 
-        if (!this.client) {
-            this.client = new LinearClient({ apiKey: this.settings.apiKey });
-            this.log('Created new Linear client');
+        // Profiles are edited in place and tokens refreshed, so pick up new credentials on the next request
+        const credential = accessToken ?? apiKey;
+        if (!this.client || this.clientKey !== credential) {
+            this.client = new LinearClient(accessToken ? { accessToken } : { apiKey });
+            this.clientKey = credential;
+            log(this.settings, `Created new Linear client for workspace "${this.profile.name}"`);
         }
 
         return this.client;
     }
 
-    async getTeams(): Promise<Team[]> {
+    /**
+     * Asks Linear whose credentials these are, to check they work. Throws
+     * when they don't.
+     */
+    async testConnection(): Promise<{ user: UserNode; organization: string }> {
+        const response: LinearRawResponse<{ viewer: UserNode; organization: { name: string } }> = await this.query(`
+            query Viewer {
+                viewer { id name email }
+                organization { name }
+            }
+        `);
+        if (!response?.data?.viewer) {
+            throw new Error("Linear didn't say who the credentials belong to");
+        }
+        return { user: response.data.viewer, organization: response.data.organization.name };
+    }
+
+    /**
+     * Drops the client and forgets loads in flight, for when the profile's
+     * credentials change.
+     */
+    reset() {
+        this.client = null;
+        this.clientKey = null;
+        this.queue.reset();
+        log(this.settings, `Reset client for workspace "${this.profile.name}"`);
+    }
+
+    /**
+     * Classifies a failed request as a LinearServiceError naming the workspace.
+     */
+    private failure(error: unknown): LinearServiceError {
+        const failure = toServiceError(error);
+        return new LinearServiceError(failure.kind, this.inWorkspace(failure.message), failure.retryAt);
+    }
+
+    /**
+     * Sends a GraphQL query through the workspace's request queue. An identical
+     * query already in flight is shared, and transient failures are retried.
+     * Failures are thrown as LinearServiceErrors.
+     */
+    private async query<T>(document: string, variables?: Record<string, unknown>): Promise<LinearRawResponse<T>> {
+        const client = await this.ensureClient();
         try {
-            this.log('Fetching teams...');
-            const client = await this.ensureClient();
-            const { nodes } = await client.teams();
-            this.log('Teams fetched:', nodes.map(t => ({ id: t.id, name: t.name })));
-            return nodes;
+            return await this.queue.run<T>(
+                { key: `${document}\n${JSON.stringify(variables ?? {})}`, idempotent: true },
+                () => client.client.rawRequest<T, Record<string, unknown>>(document, variables).catch(error => {
+                    throw requestFailure(error);
+                })
+            );
         } catch (error) {
-            this.log('Failed to fetch teams - API error', error, true);
-            throw new Error("Failed to fetch teams");
+            throw this.failure(error);
         }
     }
 
-    private async getTeamIdByName(teamName: string): Promise<string | null> {
-        this.log(`Looking for team: "${teamName}"`);
-        
-        // Check cache first
-        const normalizedTeamName = teamName.toLowerCase();
-        if (this.teamCache.has(normalizedTeamName)) {
-            const cachedId = this.teamCache.get(normalizedTeamName);
-            this.log(`Found team "${teamName}" in cache with ID: ${cachedId}`);
-            return cachedId || null;
-        }
-        
+    /**
+     * Sends a GraphQL mutation through the workspace's request queue. Mutations
+     * are never shared, and are only retried when Linear turned them away.
+     * Failures are thrown as LinearServiceErrors.
+     */
+    private async mutate<T>(document: string, variables: Record<string, unknown>): Promise<LinearRawResponse<T>> {
+        const client = await this.ensureClient();
         try {
-            const teams = await this.getTeams();
-            for (const team of teams) {
-                const name = team.name.toLowerCase();
-                if (name === normalizedTeamName) {
-                    // Cache the found team
-                    this.teamCache.set(normalizedTeamName, team.id);
-                    this.log(`Found team "${teamName}" with ID: ${team.id}`);
-                    return team.id;
+            return await this.queue.run<T>(
+                { idempotent: false },
+                () => client.client.rawRequest<T, Record<string, unknown>>(document, variables).catch(error => {
+                    throw requestFailure(error);
+                })
+            );
+        } catch (error) {
+            throw this.failure(error);
+        }
+    }
+
+    /**
+     * Every node of a top-level connection such as `teams`, following its cursor.
+     */
+    private async queryAll<T>(connection: string, fields: string): Promise<T[]> {
+        let nodes: T[] = [];
+        let after: string | undefined;
+        do {
+            const response: LinearRawResponse<Record<string, Connection<T>>> = await this.query(`
+                query All($first: Int, $after: String) {
+                    ${connection}(first: $first, after: $after) {
+                        nodes { ${fields} }
+                        pageInfo {
+                            hasNextPage
+                            endCursor
+                        }
+                    }
                 }
+            `, { first: PAGE_SIZE, after });
+
+            const page = response?.data?.[connection];
+            if (!page?.nodes) {
+                throw new Error(`No ${connection} returned from query`);
             }
-            this.log(`Team "${teamName}" not found`);
-            return null;
+            nodes = nodes.concat(page.nodes);
+            after = page.pageInfo.hasNextPage ? page.pageInfo.endCursor ?? undefined : undefined;
+        } while (after);
+        return nodes;
+    }
+
+    /**
+     * Returns the cached value for `key` while it is within its TTL, otherwise loads
+     * it. Concurrent loads of the same key share their requests through the queue,
+     * and a failed load falls back to the last cached value so blocks keep
+     * rendering while offline.
+     */
+    private async loadCached<T>(namespace: CacheNamespace, key: string, loader: () => Promise<T>): Promise<T> {
+        const entry = this.cache.get<T>(namespace, key);
+        if (entry && this.isFresh(entry, namespace)) {
+            log(this.settings, `Using cached ${namespace} for "${key}"`);
+            return entry.value;
+        }
+
+        try {
+            const value = await loader();
+            this.cache.set(namespace, key, value);
+            return value;
         } catch (error) {
-            this.log('Failed to find team - API error', error, true);
-            return null;
+            if (entry) {
+                log(this.settings, `Failed to refresh ${namespace} for "${key}" - serving cached copy`, error, true);
+                return entry.value;
+            }
+            throw error;
         }
     }
 
-    private isCacheValid(): boolean {
-        return !!(
-            this.workflowStatesCache &&
-            Date.now() - this.workflowStatesCache.timestamp < this.CACHE_TTL
-        );
+    isFresh(entry: { timestamp: number }, namespace: CacheNamespace = 'issues'): boolean {
+        // Comments and related issues change as often as issues do
+        const ttlMinutes = namespace === 'issues' || namespace === 'details'
+            ? this.settings.issueCacheTtl
+            : this.settings.metadataCacheTtl;
+        return Date.now() - entry.timestamp < ttlMinutes * 60 * 1000;
     }
 
-    async getWorkflowStates(): Promise<WorkflowStateNode[]> {
+    async getTeams(): Promise<TeamNode[]> {
         try {
-            // Check cache first
-            if (this.isCacheValid()) {
-                this.log('Using cached workflow states');
-                return this.workflowStatesCache!.states;
+            return await this.loadCached('teams', 'all', async () => {
+                log(this.settings, 'Fetching teams...');
+                const nodes = await this.queryAll<TeamNode>('teams', 'id name key');
+                log(this.settings, 'Teams fetched:', nodes.map(t => ({ id: t.id, name: t.name })));
+                return nodes;
+            });
+        } catch (error) {
+            log(this.settings, 'Failed to fetch teams - API error', error, true);
+            throw error;
+        }
+    }
+
+    /**
+     * Returns the cached teams without touching the network, regardless of their age.
+     */
+    peekTeams(): TeamNode[] | null {
+        return this.cache.get<TeamNode[]>('teams', 'all')?.value ?? null;
+    }
+
+    private async getTeamIdByName(teamName: string): Promise<string | null> {
+        log(this.settings, `Looking for team: "${teamName}"`);
+        
+        const normalizedTeamName = teamName.toLowerCase();
+        const teams = await this.getTeams();
+        for (const team of teams) {
+            // Teams can be referred to by name or by their issue key
+            if (team.name.toLowerCase() === normalizedTeamName || team.key.toLowerCase() === normalizedTeamName) {
+                log(this.settings, `Found team "${teamName}" with ID: ${team.id}`);
+                return team.id;
             }
+        }
+        log(this.settings, `Team "${teamName}" not found`);
+        return null;
+    }
+
+    async getWorkflowStates(): Promise<WorkflowStateNode[]> {
+        try {
+            return await this.loadCached('states', 'all', () => this.fetchWorkflowStates());
+        } catch (error) {
+            log(this.settings, 'Error fetching workflow states', error);
+            throw error;
+        }
+    }
+
+    private async fetchWorkflowStates(): Promise<WorkflowStateNode[]> {
+        log(this.settings, 'Fetching workflow states...');
+        let allStates: WorkflowStateNode[] = [];
+        let hasNextPage = true;
+        let after: string | null = null;
 
-            this.log('Fetching workflow states...');
-            const client = await this.ensureClient();
-            let allStates: WorkflowStateNode[] = [];
-            let hasNextPage = true;
-            let after: string | null = null;
-
-            while (hasNextPage) {
-                const response: LinearRawResponse<WorkflowStateQueryResponse> = await client.client.rawRequest<WorkflowStateQueryResponse, { after?: string }>(`
-                    query WorkflowStates${after ? '($after: String!)' : ''} {
-                        workflowStates(first: 100${after ? ', after: $after' : ''}) {
-                            nodes {
+        while (hasNextPage) {
+            const response: LinearRawResponse<WorkflowStateQueryResponse> = await this.query<WorkflowStateQueryResponse>(`
+                query WorkflowStates${after ? '($after: String!)' : ''} {
+                    workflowStates(first: 100${after ? ', after: $after' : ''}) {
+                        nodes {
+                            id
+                            name
+                            type
+                            color
+                            position
+                            team {
                                 id
                                 name
-                                type
-                                team {
-                                    id
-                                    name
-                                }
-                            }
-                            pageInfo {
-                                hasNextPage
-                                endCursor
                             }
                         }
+                        pageInfo {
+                            hasNextPage
+                            endCursor
+                        }
                     }
-                `, after ? { after } : undefined);
-
-                if (!response?.data?.workflowStates?.nodes) {
-                    throw new Error("No workflow states returned from query");
                 }
+            `, after ? { after } : undefined);
 
-                const { nodes, pageInfo } = response.data.workflowStates;
-                allStates = allStates.concat(nodes);
-                hasNextPage = pageInfo.hasNextPage;
-                after = pageInfo.endCursor;
-
-                this.log(`Fetched ${nodes.length} workflow states${hasNextPage ? ', fetching more...' : ''}`);
+            if (!response?.data?.workflowStates?.nodes) {
+                throw new Error("No workflow states returned from query");
             }
 
-            // Update cache
-            this.workflowStatesCache = {
-                timestamp: Date.now(),
-                states: allStates
-            };
+            const { nodes, pageInfo } = response.data.workflowStates;
+            allStates = allStates.concat(nodes);
+            hasNextPage = pageInfo.hasNextPage;
+            after = pageInfo.endCursor;
+
+            log(this.settings, `Fetched ${nodes.length} workflow states${hasNextPage ? ', fetching more...' : ''}`);
+        }
+
+        log(this.settings, 'All workflow states fetched:', allStates.map(s => ({
+            id: s.id,
+            name: s.name,
+            team: s.team ? `${s.team.name} (${s.team.id})` : 'no team'
+        })));
+        
+        return allStates;
+    }
 
-            this.log('All workflow states fetched:', allStates.map(s => ({
-                id: s.id,
-                name: s.name,
-                team: s.team ? `${s.team.name} (${s.team.id})` : 'no team'
-            })));
-            
-            return allStates;
+    async getUsers(): Promise<UserNode[]> {
+        try {
+            return await this.loadCached('users', 'all', async () => {
+                log(this.settings, 'Fetching users...');
+                const nodes = await this.queryAll<UserNode>('users', 'id name email');
+                log(this.settings, `Fetched ${nodes.length} users`);
+                return nodes;
+            });
         } catch (error) {
-            this.log('Error fetching workflow states', error);
-            throw new Error("Failed to fetch workflow states");
+            log(this.settings, 'Failed to fetch users - API error', error, true);
+            throw error;
         }
     }
 
-    private async getStatusByName(statusName: string, teamId?: string): Promise<WorkflowState | null> {
-        this.log(`Looking for status: "${statusName}"${teamId ? ` in team ID: ${teamId}` : ''}`);
+    /**
+     * Every label that can be applied to issues. Label groups are left out, since
+     * only the labels inside them can be applied.
+     */
+    async getLabels(): Promise<LabelNode[]> {
+        try {
+            return await this.loadCached('labels', 'all', async () => {
+                log(this.settings, 'Fetching labels...');
+                const nodes = await this.queryAll<{ id: string; name: string; color: string; isGroup: boolean; team?: { id: string } | null }>(
+                    'issueLabels', 'id name color isGroup team { id }'
+                );
+                log(this.settings, `Fetched ${nodes.length} labels`);
+                return nodes
+                    .filter(label => !label.isGroup)
+                    .map(label => ({ id: label.id, name: label.name, color: label.color, teamId: label.team?.id }));
+            });
+        } catch (error) {
+            log(this.settings, 'Failed to fetch labels - API error', error, true);
+            throw error;
+        }
+    }
 
+    async getProjects(): Promise<ProjectNode[]> {
         try {
-            const states = await this.getWorkflowStates();
-            const normalizedSearchName = this.normalizeStateName(statusName);
-            
-            for (const state of states) {
-                const normalizedStateName = this.normalizeStateName(state.name);
-                
-                this.log(`Checking state: "${state.name}" (${state.id})`, {
-                    matches: {
-                        name: normalizedStateName === normalizedSearchName,
-                        team: !teamId || !state.team || state.team.id === teamId
-                    },
-                    state: {
-                        name: state.name,
-                        normalizedName: normalizedStateName,
-                        id: state.id,
-                        team: state.team ? `${state.team.name} (${state.team.id})` : 'no team'
-                    }
-                });
-                
-                if (normalizedStateName === normalizedSearchName && 
-                    (!teamId || !state.team || state.team.id === teamId)) {
-                    this.log(`Found matching state: "${state.name}"`);
-                    return state as unknown as WorkflowState;
-                }
-            }
-            
-            this.log(`No matching state found for "${statusName}"`);
-            return null;
+            return await this.loadCached('projects', 'all', async () => {
+                log(this.settings, 'Fetching projects...');
+                const nodes = await this.queryAll<{ id: string; name: string; targetDate?: string | null }>('projects', 'id name targetDate');
+                log(this.settings, `Fetched ${nodes.length} projects`);
+                return nodes.map(project => ({
+                    id: project.id,
+                    name: project.name,
+                    targetDate: project.targetDate ?? undefined
+                }));
+            });
         } catch (error) {
-            this.log('Error finding status', error);
-            return null;
+            log(this.settings, 'Failed to fetch projects - API error', error, true);
+            throw error;
         }
     }
 
+    /**
+     * Every cycle of every team, most recent first.
+     */
+    async getCycles(): Promise<CycleNode[]> {
+        try {
+            return await this.loadCached('cycles', 'all', async () => {
+                log(this.settings, 'Fetching cycles...');
+                const nodes = await this.queryAll<{
+                    id: string;
+                    number: number;
+                    name?: string | null;
+                    startsAt: string;
+                    endsAt: string;
+                    team?: { id: string } | null;
+                }>('cycles', 'id number name startsAt endsAt team { id }');
+                log(this.settings, `Fetched ${nodes.length} cycles`);
+                return nodes
+                    .map(cycle => ({
+                        id: cycle.id,
+                        number: cycle.number,
+                        name: cycle.name ?? undefined,
+                        startsAt: new Date(cycle.startsAt).toISOString(),
+                        endsAt: new Date(cycle.endsAt).toISOString(),
+                        teamId: cycle.team?.id
+                    }))
+                    .sort((a, b) => b.startsAt.localeCompare(a.startsAt));
+            });
+        } catch (error) {
+            log(this.settings, 'Failed to fetch cycles - API error', error, true);
+            throw error;
+        }
+    }
+
+    /**
+     * Finds every workflow state with the given name. Teams usually share state
+     * names, so without a team restriction one name can match several states.
+     */
+    private async getStatesByName(statusName: string, teamIds?: string[]): Promise<WorkflowStateNode[]> {
+        log(this.settings, `Looking for status: "${statusName}"${teamIds?.length ? ` in team IDs: ${teamIds.join(', ')}` : ''}`);
+
+        const states = await this.getWorkflowStates();
+        const normalizedSearchName = this.normalizeStateName(statusName);
+
+        const matches = states.filter(state =>
+            this.normalizeStateName(state.name) === normalizedSearchName &&
+            (!teamIds?.length || !state.team || teamIds.includes(state.team.id))
+        );
+
+        log(this.settings, matches.length
+            ? `Found ${matches.length} matching states for "${statusName}"`
+            : `No matching state found for "${statusName}"`,
+            matches.map(state => ({
+                id: state.id,
+                name: state.name,
+                team: state.team ? `${state.team.name} (${state.team.id})` : 'no team'
+            }))
+        );
+        return matches;
+    }
+
     private normalizeStateName(name: string): string {
         return name.toLowerCase().replace(/[^a-z0-9]/g, '');
     }
 
-    async getIssues(options?: IssueOptions): Promise<Issue[]> {
-        try {
-            this.log('Getting issues with options:', options);
-            
-            const client = await this.ensureClient();
-            let teamId: string | undefined = undefined;
-            const filter: any = {};
-
-            if (options?.teamName) {
-                const fetchedTeamId = await this.getTeamIdByName(options.teamName);
-                if (!fetchedTeamId) {
-                    this.log(`Team "${options.teamName}" not found - skipping query`);
-                    new Notice(`Team "${options.teamName}" not found`);
-                    return [];
+    private issuesCacheKey(options?: IssueOptions): string {
+        return `query:${JSON.stringify(options ?? {})}`;
+    }
+
+    /**
+     * Returns the last cached result for a query without touching the network,
+     * regardless of its age.
+     */
+    peekIssues(options?: IssueOptions): CacheEntry<IssuePage> | null {
+        return this.cache.get<IssuePage>('issues', this.issuesCacheKey(options));
+    }
+
+    peekIssue(issueId: string): CacheEntry<LinearIssue> | null {
+        return this.cache.get<LinearIssue>('issues', `id:${issueId}`);
+    }
+
+    private toIssueData(issue: IssueNode): LinearIssue {
+        const { state, assignee, team, project, cycle } = issue;
+        return {
+            id: issue.id,
+            identifier: issue.identifier,
+            title: issue.title,
+            description: issue.description ?? undefined,
+            url: issue.url,
+            dueDate: issue.dueDate ?? undefined,
+            priority: issue.priority,
+            estimate: issue.estimate ?? undefined,
+            createdAt: new Date(issue.createdAt).toISOString(),
+            updatedAt: new Date(issue.updatedAt).toISOString(),
+            completedAt: issue.completedAt ? new Date(issue.completedAt).toISOString() : undefined,
+            state: state ? { id: state.id, name: state.name, type: state.type, color: state.color } : undefined,
+            assignee: assignee ? { id: assignee.id, name: assignee.name, email: assignee.email } : undefined,
+            team: team ? { id: team.id, name: team.name, key: team.key } : undefined,
+            project: project ? { id: project.id, name: project.name } : undefined,
+            cycle: cycle ? { id: cycle.id, number: cycle.number, name: cycle.name ?? undefined } : undefined,
+            labels: issue.labels.nodes.map(label => ({ id: label.id, name: label.name, color: label.color }))
+        };
+    }
+
+    /**
+     * Runs one page of an issue query, with everything shown on cards.
+     */
+    private async queryIssues(variables: IssueQueryVariables): Promise<Connection<IssueNode>> {
+        const response: LinearRawResponse<{ issues: Connection<IssueNode> }> = await this.query(`
+            query Issues($first: Int, $after: String, $filter: IssueFilter, $sort: [IssueSortInput!]) {
+                issues(first: $first, after: $after, filter: $filter, sort: $sort) {
+                    nodes { ${ISSUE_FIELDS} }
+                    pageInfo {
+                        hasNextPage
+                        endCursor
+                    }
                 }
-                teamId = fetchedTeamId;
-                filter.team = { id: { eq: teamId } };
-                this.log(`Added team filter:`, filter.team);
             }
+        `, { ...variables });
+
+        if (!response?.data?.issues?.nodes) {
+            throw new Error("No issues returned from query");
+        }
+        return response.data.issues;
+    }
+
+    /**
+     * Follows a query's cursor until there are no more results.
+     */
+    private async queryAllIssues(filter: IssueFilter): Promise<LinearIssue[]> {
+        let nodes: IssueNode[] = [];
+        let after: string | undefined;
+        do {
+            const connection = await this.queryIssues({ first: PAGE_SIZE, after, filter });
+            nodes = nodes.concat(connection.nodes);
+            after = connection.pageInfo.hasNextPage ? connection.pageInfo.endCursor ?? undefined : undefined;
+        } while (after);
+        return nodes.map(node => this.toIssueData(node));
+    }
+
+    /**
+     * Limits a query without a team to the workspace's default team, if it has one.
+     */
+    applyDefaultTeam(options: IssueOptions) {
+        const defaultTeam = this.profile.defaultTeam.trim();
+        if (!options.team && defaultTeam) {
+            options.team = { include: [defaultTeam], exclude: [] };
+        }
+    }
+
+    /**
+     * Loads a query's issues, from the cache while fresh. Throws a
+     * LinearServiceError when Linear can't answer and nothing is cached, which
+     * callers report where the issues would have been shown.
+     */
+    async getIssues(options?: IssueOptions): Promise<IssuePage> {
+        try {
+            return await this.loadCached('issues', this.issuesCacheKey(options), () => this.fetchIssues(options));
+        } catch (error) {
+            log(this.settings, 'Failed to fetch Linear issues - API error', error, true);
+            throw error;
+        }
+    }
+
+    /**
+     * Fetches a query straight from Linear, bypassing and then updating the
+     * cache. Throws when Linear can't be reached.
+     */
+    async refreshIssues(options: IssueOptions): Promise<IssuePage> {
+        const page = await this.fetchIssues(options);
+        this.cache.set('issues', this.issuesCacheKey(options), page);
+        return page;
+    }
 
-            if (options?.status) {
-                const state = await this.getStatusByName(options.status, teamId);
-                if (!state) {
-                    const message = `Status "${options.status}" not found${teamId ? ' for the specified team' : ''}`;
-                    this.log(message);
-                    new Notice(message);
-                    return [];
+    /**
+     * Fetches every issue matching a query straight from Linear, following the
+     * cursor past the "Maximum issues per block" setting; only the query's own
+     * `limit` caps it, and `hasNextPage` tells when it did. Not cached; throws
+     * when Linear can't be reached.
+     */
+    async fetchAllIssues(options: IssueOptions): Promise<IssuePage> {
+        return this.fetchIssues(options, undefined, options.limit ?? Infinity);
+    }
+
+    /**
+     * Continues a query from `after`, the `endCursor` of a previous load. These
+     * follow-up loads aren't cached, and failures are thrown.
+     */
+    async getMoreIssues(options: IssueOptions, after: string): Promise<IssuePage> {
+        return this.fetchIssues(options, after);
+    }
+
+    private notFound(message: string): never {
+        log(this.settings, message);
+        throw new LinearServiceError('not-found', this.inWorkspace(message));
+    }
+
+    /**
+     * Combines include and exclude values of one filter option into clauses.
+     * Included values are OR-ed together, each excluded value adds its own clause.
+     */
+    private valueClauses(
+        value: FilterValue,
+        include: (item: string) => IssueFilter,
+        exclude: (item: string) => IssueFilter
+    ): IssueFilter[] {
+        const clauses: IssueFilter[] = [];
+        if (value.include.length === 1) {
+            clauses.push(include(value.include[0]));
+        } else if (value.include.length > 1) {
+            clauses.push({ or: value.include.map(include) });
+        }
+        for (const item of value.exclude) {
+            clauses.push(exclude(item));
+        }
+        return clauses;
+    }
+
+    private userFilter(value: string, negate: boolean): UserFilter {
+        const normalized = value.toLowerCase();
+        if (normalized === 'me') {
+            return { isMe: { eq: !negate } };
+        }
+        const comparator = negate ? { neqIgnoreCase: value } : { eqIgnoreCase: value };
+        return value.includes('@') ? { email: comparator } : { name: comparator };
+    }
+
+    private userClauses(value: FilterValue, field: 'assignee' | 'creator'): IssueFilter[] {
+        return this.valueClauses(
+            value,
+            item => item.toLowerCase() === 'none'
+                ? { [field]: { null: true } }
+                : { [field]: this.userFilter(item, false) },
+            item => item.toLowerCase() === 'none'
+                ? { [field]: { null: false } }
+                // Unassigned issues don't match any user condition, so keep them explicitly
+                : { or: [{ [field]: { null: true } }, { [field]: this.userFilter(item, true) }] }
+        );
+    }
+
+    private cycleFilter(value: string, negate: boolean = false): LinearDocument.NullableCycleFilter | null {
+        switch (value.toLowerCase()) {
+            case 'current': return { isActive: { eq: !negate } };
+            case 'next': return { isNext: { eq: !negate } };
+            case 'previous': return { isPrevious: { eq: !negate } };
+            case 'none': return { null: !negate };
+        }
+        const number = Number(value);
+        if (!Number.isInteger(number)) return null;
+        return { number: negate ? { neq: number } : { eq: number } };
+    }
+
+    private dateComparator(value: DateFilter, timeless: boolean): LinearDocument.DateComparator {
+        const format = (date: Date) => timeless
+            ? `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}-${String(date.getDate()).padStart(2, '0')}`
+            : date.toISOString();
+        const comparator: LinearDocument.DateComparator = {};
+        if (value.on) {
+            const start = resolveDateExpression(value.on);
+            start.setHours(0, 0, 0, 0);
+            const end = new Date(start);
+            end.setHours(23, 59, 59, 999);
+            comparator.gte = format(start);
+            comparator.lte = format(end);
+        }
+        // Upper bounds and "after" on a plain date refer to the end of that day
+        const endOf = (expression: string) => {
+            const date = resolveDateExpression(expression);
+            if (/^\d{4}-\d{2}-\d{2}$/.test(expression)) date.setHours(23, 59, 59, 999);
+            return date;
+        };
+        if (value.gt) comparator.gt = format(endOf(value.gt));
+        if (value.gte) comparator.gte = format(resolveDateExpression(value.gte));
+        if (value.lt) comparator.lt = format(resolveDateExpression(value.lt));
+        if (value.lte) comparator.lte = format(endOf(value.lte));
+        return comparator;
+    }
+
+    /**
+     * Compiles block options into a Linear `IssueFilter`. Team and status names are
+     * resolved to IDs first; throws a not-found error when one of them doesn't exist.
+     */
+    private async buildIssueFilter(options?: IssueOptions): Promise<IssueFilter> {
+        const clauses: IssueFilter[] = [];
+        let teamIds: string[] | undefined = undefined;
+
+        if (options?.team) {
+            const resolve = async (names: string[]) => {
+                const ids: string[] = [];
+                for (const name of names) {
+                    const id = await this.getTeamIdByName(name);
+                    if (!id) return this.notFound(`Team "${name}" not found`);
+                    ids.push(id);
+                }
+                return ids;
+            };
+            const included = await resolve(options.team.include);
+            const excluded = await resolve(options.team.exclude);
+
+            teamIds = included.length ? included : undefined;
+            clauses.push({
+                team: {
+                    id: {
+                        ...(included.length ? { in: included } : {}),
+                        ...(excluded.length ? { nin: excluded } : {})
+                    }
+                }
+            });
+        }
+
+        if (options?.status) {
+            const resolve = async (names: string[]) => {
+                const ids: string[] = [];
+                for (const name of names) {
+                    const states = await this.getStatesByName(name, teamIds);
+                    if (!states.length) {
+                        return this.notFound(`Status "${name}" not found${teamIds ? ' for the specified team' : ''}`);
+                    }
+                    ids.push(...states.map(state => state.id));
                 }
-                filter.state = { id: { eq: state.id } };
-                this.log(`Added status filter:`, filter.state);
+                return ids;
+            };
+            const included = await resolve(options.status.include);
+            const excluded = await resolve(options.status.exclude);
+
+            clauses.push({
+                state: {
+                    id: {
+                        ...(included.length ? { in: included } : {}),
+                        ...(excluded.length ? { nin: excluded } : {})
+                    }
+                }
+            });
+        }
+
+        if (options?.assignee) {
+            clauses.push(...this.userClauses(options.assignee, 'assignee'));
+        }
+
+        if (options?.creator) {
+            clauses.push(...this.userClauses(options.creator, 'creator'));
+        }
+
+        if (options?.label) {
+            clauses.push(...this.valueClauses(
+                options.label,
+                item => ({ labels: { some: { name: { eqIgnoreCase: item } } } }),
+                item => ({ labels: { every: { name: { neqIgnoreCase: item } } } })
+            ));
+        }
+
+        if (options?.project) {
+            clauses.push(...this.valueClauses(
+                options.project,
+                item => item.toLowerCase() === 'none'
+                    ? { project: { null: true } }
+                    : { project: { name: { eqIgnoreCase: item } } },
+                item => item.toLowerCase() === 'none'
+                    ? { project: { null: false } }
+                    : { or: [{ project: { null: true } }, { project: { name: { neqIgnoreCase: item } } }] }
+            ));
+        }
+
+        if (options?.cycle) {
+            const values = options.cycle.include.concat(options.cycle.exclude);
+            const invalid = values.find(value => !this.cycleFilter(value));
+            if (invalid) {
+                throw new LinearServiceError('invalid-filter', this.inWorkspace(`Cycle "${invalid}" not recognised`));
             }
+            clauses.push(...this.valueClauses(
+                options.cycle,
+                item => ({ cycle: this.cycleFilter(item)! }),
+                item => item.toLowerCase() === 'none'
+                    ? { cycle: this.cycleFilter(item, true)! }
+                    : { or: [{ cycle: { null: true } }, { cycle: this.cycleFilter(item, true)! }] }
+            ));
+        }
+
+        if (options?.priority) {
+            clauses.push({ priority: { in: options.priority } });
+        }
+
+        if (options?.created) {
+            clauses.push({ createdAt: this.dateComparator(options.created, false) });
+        }
+
+        if (options?.updated) {
+            clauses.push({ updatedAt: this.dateComparator(options.updated, false) });
+        }
 
-            if (options?.assigneeEmail) {
-                filter.assignee = { email: { eq: options.assigneeEmail } };
-                this.log(`Added assignee filter:`, filter.assignee);
+        if (options?.due) {
+            clauses.push({ dueDate: this.dateComparator(options.due, true) });
+        }
+
+        log(this.settings, 'Built issue filter:', clauses);
+        return { and: clauses };
+    }
+
+    /**
+     * Maps block sorting onto Linear's `sort` argument so ordering happens before
+     * pagination and limits apply to the sorted results.
+     */
+    private buildIssueSort(sorting: SortSpec[]): LinearDocument.IssueSortInput[] {
+        return sorting.map(spec => {
+            const sort = {
+                order: spec.direction === 'asc'
+                    ? LinearDocument.PaginationSortOrder.Ascending
+                    : LinearDocument.PaginationSortOrder.Descending,
+                nulls: spec.nulls === 'first'
+                    ? LinearDocument.PaginationNulls.First
+                    : LinearDocument.PaginationNulls.Last
+            };
+            switch (spec.field) {
+                case 'dueDate': return { dueDate: sort };
+                // "No priority" is stored as 0 rather than null, so it needs its own flag
+                case 'priority': return { priority: { ...sort, noPriorityFirst: spec.nulls === 'first' } };
+                case 'updatedAt': return { updatedAt: sort };
+                case 'createdAt': return { createdAt: sort };
+                case 'state': return { workflowState: sort };
+                case 'estimate': return { estimate: sort };
+                case 'title': return { title: sort };
             }
+        });
+    }
+
+    /**
+     * Follows the query's cursor until `cap` issues are loaded or there are no
+     * more results. The cap defaults to the block's `limit`, or the `maxIssues`
+     * setting when there is none and the query doesn't ask for its whole scope.
+     */
+    private async fetchIssues(
+        options?: IssueOptions,
+        after?: string,
+        cap: number = options?.limit
+            ?? (this.settings.maxIssues > 0 && !options?.wholeScope ? this.settings.maxIssues : Infinity)
+    ): Promise<IssuePage> {
+        log(this.settings, 'Getting issues with options:', options);
+        
+        const filter = await this.buildIssueFilter(options);
+
+        let nodes: IssueNode[] = [];
+        let hasNextPage = true;
+        let endCursor: string | null = after ?? null;
+
+        const sort = options?.sorting ? this.buildIssueSort(options.sorting) : undefined;
 
-            this.log('Fetching issues with filter:', filter);
-            let { nodes } = await client.issues({
-                first: options?.limit,
-                filter: Object.keys(filter).length > 0 ? filter : undefined
+        log(this.settings, 'Fetching issues with filter:', { filter, sort });
+        while (hasNextPage && nodes.length < cap) {
+            const connection = await this.queryIssues({
+                first: Math.min(PAGE_SIZE, cap - nodes.length),
+                after: endCursor ?? undefined,
+                filter: filter.and?.length ? filter : undefined,
+                sort
             });
-            
-            // Sort by due date if requested
-            if (options?.sorting?.field === 'date') {
-                this.log('Sorting issues by due date', {
-                    direction: options.sorting.direction,
-                    totalIssues: nodes.length,
-                    issuesWithDueDate: nodes.filter(n => n.dueDate).length
-                });
-
-                nodes = nodes.sort((a, b) => {
-                    // If sorting ascending: null dates go to the end
-                    // If sorting descending: null dates go to the end
-                    if (!a.dueDate && !b.dueDate) return 0;
-                    if (!a.dueDate) return 1;
-                    if (!b.dueDate) return -1;
-
-                    const dateA = new Date(a.dueDate).getTime();
-                    const dateB = new Date(b.dueDate).getTime();
-                    return options.sorting!.direction === 'asc' ? dateA - dateB : dateB - dateA;
-                });
-
-                this.log('Sorting complete', {
-                    firstIssue: nodes[0] ? {
-                        identifier: nodes[0].identifier,
-                        dueDate: nodes[0].dueDate
-                    } : 'no issues',
-                    lastIssue: nodes[nodes.length - 1] ? {
-                        identifier: nodes[nodes.length - 1].identifier,
-                        dueDate: nodes[nodes.length - 1].dueDate
-                    } : 'no issues'
-                });
-            }
-            
-            // Enhanced logging for issue details
-            for (const issue of nodes) {
-                const assignee = issue.assignee ? await issue.assignee : null;
-                this.log(`Issue details:`, {
-                    id: issue.id,
-                    identifier: issue.identifier,
-                    title: issue.title,
-                    dueDate: issue.dueDate,
-                    formattedDueDate: issue.dueDate ? new Date(issue.dueDate).toLocaleDateString() : 'No due date',
-                    assignee: assignee ? {
-                        id: assignee.id,
-                        name: assignee.name,
-                        email: assignee.email
-                    } : 'Unassigned'
-                });
+            nodes = nodes.concat(connection.nodes);
+            hasNextPage = connection.pageInfo.hasNextPage;
+            endCursor = connection.pageInfo.endCursor ?? null;
+            log(this.settings, `Fetched ${connection.nodes.length} issues${hasNextPage && nodes.length < cap ? ', fetching more...' : ''}`);
+        }
+        
+        const issues = nodes.map(issue => this.toIssueData(issue));
+        log(this.settings, `Found ${issues.length} issues${hasNextPage ? ', more available' : ''}`);
+        return { issues, hasNextPage, endCursor };
+    }
+
+    /**
+     * Every issue in `scope` that was moved to a completed workflow state
+     * between `from` and `to`. Canceled issues aren't included. Not cached;
+     * throws when Linear can't be reached.
+     */
+    async getCompletedIssues(scope: CompletedIssuesScope, from: Date, to: Date): Promise<LinearIssue[]> {
+        const states = await this.getWorkflowStates();
+        const completedStateIds = states.filter(state => state.type === 'completed').map(state => state.id);
+        if (!completedStateIds.length) return [];
+
+        const filter: IssueFilter = {
+            and: [
+                { state: { id: { in: completedStateIds } } },
+                { completedAt: { gte: from, lte: to } }
+            ]
+        };
+        if (scope.teamId) filter.and!.push({ team: { id: { eq: scope.teamId } } });
+        if (scope.projectId) filter.and!.push({ project: { id: { eq: scope.projectId } } });
+        if (scope.cycleId) filter.and!.push({ cycle: { id: { eq: scope.cycleId } } });
+
+        log(this.settings, 'Fetching completed issues with filter:', filter);
+        const issues = await this.queryAllIssues(filter);
+        log(this.settings, `Found ${issues.length} completed issues`);
+        return issues;
+    }
+
+    /**
+     * Searches issues by identifier, title and description, for autocompletion.
+     * With a team key the search is limited to that team, and an empty `term`
+     * returns the most recently updated issues. Results aren't cached.
+     */
+    async searchIssues(term: string, teamKey?: string): Promise<IssueSummary[]> {
+        log(this.settings, 'Searching issues:', { term, teamKey });
+        const filter: IssueFilter | undefined = teamKey ? { team: { key: { eq: teamKey } } } : undefined;
+
+        if (!term.trim()) {
+            const response: LinearRawResponse<{ issues: IssueSummaryConnection }> = await this.query(`
+                query RecentIssues($first: Int, $filter: IssueFilter) {
+                    issues(first: $first, filter: $filter, orderBy: updatedAt) {
+                        nodes { ${ISSUE_SUMMARY_FIELDS} }
+                    }
+                }
+            `, { first: SEARCH_RESULTS, filter });
+            return response.data?.issues.nodes ?? [];
+        }
+
+        const response: LinearRawResponse<{ searchIssues: IssueSummaryConnection }> = await this.query(`
+            query SearchIssues($term: String!, $first: Int, $filter: IssueFilter) {
+                searchIssues(term: $term, first: $first, filter: $filter) {
+                    nodes { ${ISSUE_SUMMARY_FIELDS} }
+                }
             }
-            
-            this.log(`Found ${nodes.length} issues`);
-            return nodes;
+        `, { term, first: SEARCH_RESULTS, filter });
+        return response.data?.searchIssues.nodes ?? [];
+    }
+
+    /**
+     * Loads an issue by ID or identifier, throwing a LinearServiceError when it
+     * can't be fetched. Callers report failures themselves, so a missing issue
+     * can be told apart from an outage.
+     */
+    async findIssue(issueId: string): Promise<LinearIssue> {
+        return this.loadCached('issues', `id:${issueId}`, () => this.fetchIssue(issueId));
+    }
+
+    /**
+     * Fetches an issue straight from Linear, bypassing and then updating the
+     * cache. Throws when Linear can't be reached.
+     */
+    async refreshIssue(issueId: string): Promise<LinearIssue> {
+        const issue = await this.fetchIssue(issueId);
+        this.cache.set('issues', `id:${issueId}`, issue);
+        return issue;
+    }
+
+    private async fetchIssue(issueId: string): Promise<LinearIssue> {
+        log(this.settings, `Fetching issue by ID: ${issueId}`);
+        let response: LinearRawResponse<{ issue: IssueNode | null }>;
+        try {
+            response = await this.query(`
+                query Issue($id: String!) {
+                    issue(id: $id) { ${ISSUE_FIELDS} }
+                }
+            `, { id: issueId });
         } catch (error) {
-            this.log('Failed to fetch Linear issues - API error', error, true);
-            new Notice("Failed to fetch Linear issues");
-            return [];
+            // Linear answers an unknown ID with an "Entity not found" error
+            if (error instanceof LinearServiceError && error.kind === 'not-found') {
+                return this.notFound(`No Linear issue found for ID: ${issueId}`);
+            }
+            throw error;
         }
+        const issue = response?.data?.issue;
+        if (!issue) {
+            return this.notFound(`No Linear issue found for ID: ${issueId}`);
+        }
+        log(this.settings, 'Fetched issue:', issue);
+        return this.toIssueData(issue);
+    }
+
+    /**
+     * Fetches several issues, given by ID or identifier, in one query. Linear
+     * can't filter by identifier, so identifiers are matched by team key and
+     * number. The result lines up with `ids`, with null for issues not found.
+     */
+    private async fetchIssuesByIds(ids: string[]): Promise<(LinearIssue | null)[]> {
+        log(this.settings, 'Fetching issues by ID:', ids);
+        const numbersByTeam = new Map<string, number[]>();
+        const uuids: string[] = [];
+        for (const id of ids) {
+            const match = id.match(IDENTIFIER_PATTERN);
+            if (match) {
+                const key = match[1].toUpperCase();
+                numbersByTeam.set(key, (numbersByTeam.get(key) ?? []).concat(Number(match[2])));
+            } else {
+                uuids.push(id);
+            }
+        }
+
+        const clauses: IssueFilter[] = Array.from(numbersByTeam, ([key, numbers]) => ({
+            team: { key: { eq: key } },
+            number: { in: numbers }
+        }));
+        if (uuids.length) {
+            clauses.push({ id: { in: uuids } });
+        }
+
+        const issues = await this.queryAllIssues(clauses.length === 1 ? clauses[0] : { or: clauses });
+        return ids.map(id => issues.find(issue =>
+            issue.id === id || issue.identifier.toUpperCase() === id.toUpperCase()
+        ) ?? null);
     }
 
-    async getIssueById(issueId: string): Promise<Issue | null> {
+    /**
+     * Loads several issues by ID or identifier, in line with `ids`. Issues
+     * cached within their TTL are reused and the rest are fetched together.
+     * Issues that don't exist are null. When Linear can't answer, stale copies
+     * are used if every issue has one, otherwise the LinearServiceError is thrown.
+     */
+    async getIssuesByIds(ids: string[]): Promise<(LinearIssue | null)[]> {
+        const cached = ids.map(id => this.peekIssue(id));
+        const stale = ids.filter((id, index) => !cached[index] || !this.isFresh(cached[index]!));
+        if (!stale.length) {
+            log(this.settings, 'Using cached issues for IDs:', ids);
+            return cached.map(entry => entry!.value);
+        }
+
         try {
-            this.log(`Fetching issue by ID: ${issueId}`);
-            const client = await this.ensureClient();
-            const issue = await client.issue(issueId);
-            if (!issue) {
-                this.log(`No issue found for ID: ${issueId}`);
-                new Notice(`No Linear issue found for ID: ${issueId}`);
-                return null;
+            const fetched = await this.fetchIssuesByIds(stale);
+            stale.forEach((id, index) => {
+                const issue = fetched[index];
+                if (issue) this.cache.set('issues', `id:${id}`, issue);
+            });
+        } catch (error) {
+            log(this.settings, 'Failed to fetch Linear issues by ID - API error', error, true);
+            if (cached.every(entry => entry !== null)) {
+                return cached.map(entry => entry!.value);
             }
-            this.log('Fetched issue:', issue);
-            return issue;
+            throw error;
+        }
+        return ids.map(id => this.peekIssue(id)?.value ?? null);
+    }
+
+    /**
+     * Fetches several issues straight from Linear, bypassing and then updating
+     * the cache. Throws when Linear can't be reached.
+     */
+    async refreshIssuesByIds(ids: string[]): Promise<(LinearIssue | null)[]> {
+        const issues = await this.fetchIssuesByIds(ids);
+        ids.forEach((id, index) => {
+            const issue = issues[index];
+            if (issue) this.cache.set('issues', `id:${id}`, issue);
+        });
+        return issues;
+    }
+
+    /**
+     * Loads an issue's comments, sub-issues, relations and attachments in one
+     * request. Throws when they can't be fetched and nothing is cached.
+     */
+    async getIssueDetails(issueId: string): Promise<IssueDetails> {
+        try {
+            return await this.loadCached('details', issueId, async () => {
+                log(this.settings, `Fetching details of issue ${issueId}`);
+                const response: LinearRawResponse<IssueDetailsResponse> = await this.query(`
+                    query IssueDetails($id: String!, $first: Int) {
+                        issue(id: $id) {
+                            comments(first: $first) {
+                                nodes { id body createdAt user { name } parent { id } }
+                            }
+                            children(first: $first) {
+                                nodes { ${ISSUE_SUMMARY_FIELDS} }
+                            }
+                            relations(first: $first) {
+                                nodes { type relatedIssue { ${ISSUE_SUMMARY_FIELDS} } }
+                            }
+                            inverseRelations(first: $first) {
+                                nodes { type issue { ${ISSUE_SUMMARY_FIELDS} } }
+                            }
+                            attachments(first: $first) {
+                                nodes { id title subtitle url }
+                            }
+                        }
+                    }
+                `, { id: issueId, first: DETAILS_PAGE_SIZE });
+
+                const issue = response.data?.issue;
+                if (!issue) {
+                    return this.notFound(`No Linear issue found for ID: ${issueId}`);
+                }
+                // Linear stores each relation once, so the other side's view comes from inverseRelations
+                const relations: RelationNode[] = [
+                    ...issue.relations.nodes.map(relation => ({
+                        kind: (relation.type === 'blocks' ? 'blocks' : relation.type === 'duplicate' ? 'duplicate-of' : 'related') as RelationKind,
+                        issue: relation.relatedIssue
+                    })),
+                    ...issue.inverseRelations.nodes.map(relation => ({
+                        kind: (relation.type === 'blocks' ? 'blocked-by' : relation.type === 'duplicate' ? 'duplicated-by' : 'related') as RelationKind,
+                        issue: relation.issue
+                    }))
+                ];
+                return {
+                    comments: issue.comments.nodes
+                        .map(comment => ({
+                            id: comment.id,
+                            body: comment.body,
+                            createdAt: comment.createdAt,
+                            author: comment.user?.name ?? 'Unknown',
+                            parentId: comment.parent?.id
+                        }))
+                        .sort((a, b) => a.createdAt.localeCompare(b.createdAt)),
+                    children: issue.children.nodes,
+                    relations,
+                    attachments: issue.attachments.nodes.map(attachment => ({
+                        id: attachment.id,
+                        title: attachment.title,
+                        subtitle: attachment.subtitle ?? undefined,
+                        url: attachment.url
+                    }))
+                };
+            });
         } catch (error) {
-            this.log('Failed to fetch Linear issue by ID - API error', error, true);
-            new Notice(`Failed to fetch Linear issue for ID: ${issueId}`);
-            return null;
+            log(this.settings, 'Failed to fetch issue details - API error', error, true);
+            throw error;
+        }
+    }
+
+    /**
+     * Returns a team's workflow states in board order, from the cached states.
+     */
+    async getTeamStates(teamId: string): Promise<WorkflowStateNode[]> {
+        const states = await this.getWorkflowStates();
+        return states
+            .filter(state => state.team?.id === teamId)
+            .sort((a, b) =>
+                STATE_TYPE_ORDER.indexOf(a.type) - STATE_TYPE_ORDER.indexOf(b.type) || a.position - b.position
+            );
+    }
+
+    /**
+     * Replaces an issue wherever it appears in cached results, so other blocks
+     * show the change without waiting for their cache to expire.
+     */
+    private storeUpdatedIssue(issue: LinearIssue) {
+        this.cache.update('issues', (value, key) => {
+            if (key.startsWith('id:')) {
+                return (value as LinearIssue).id === issue.id ? issue : value;
+            }
+            const page = value as IssuePage;
+            return { ...page, issues: page.issues.map(cached => cached.id === issue.id ? issue : cached) };
+        });
+    }
+
+    private async updateIssue(issueId: string, input: LinearDocument.IssueUpdateInput): Promise<LinearIssue> {
+        log(this.settings, `Updating issue ${issueId}:`, input);
+        const response: LinearRawResponse<{ issueUpdate: { success: boolean; issue?: IssueNode | null } }> = await this.mutate(`
+            mutation IssueUpdate($id: String!, $input: IssueUpdateInput!) {
+                issueUpdate(id: $id, input: $input) {
+                    success
+                    issue { ${ISSUE_FIELDS} }
+                }
+            }
+        `, { id: issueId, input });
+        const payload = response?.data?.issueUpdate;
+        const issue = payload?.success ? payload.issue : undefined;
+        if (!issue) {
+            throw new Error(`Linear did not update issue ${issueId}`);
         }
+
+        const updated = this.toIssueData(issue);
+        this.storeUpdatedIssue(updated);
+        log(this.settings, 'Issue updated:', updated);
+        return updated;
     }
-} 
\ No newline at end of file
+
+    /**
+     * Creates an issue and caches it under its identifier, so a block referring
+     * to it renders without another request.
+     */
+    async createIssue(input: LinearDocument.IssueCreateInput): Promise<LinearIssue> {
+        log(this.settings, 'Creating issue:', input);
+        const response: LinearRawResponse<{ issueCreate: { success: boolean; issue?: IssueNode | null } }> = await this.mutate(`
+            mutation IssueCreate($input: IssueCreateInput!) {
+                issueCreate(input: $input) {
+                    success
+                    issue { ${ISSUE_FIELDS} }
+                }
+            }
+        `, { input });
+        const payload = response?.data?.issueCreate;
+        const issue = payload?.success ? payload.issue : undefined;
+        if (!issue) {
+            throw new Error('Linear did not create the issue');
+        }
+
+        const created = this.toIssueData(issue);
+        this.cache.set('issues', `id:${created.identifier}`, created);
+        log(this.settings, 'Issue created:', created);
+        return created;
+    }
+
+    /**
+     * Posts a Markdown comment on an issue and adds it to the issue's cached
+     * comments. `issueId` is the issue's ID rather than its identifier.
+     */
+    async createComment(issueId: string, body: string): Promise<CommentNode> {
+        log(this.settings, `Commenting on issue ${issueId}`);
+        const response: LinearRawResponse<{ commentCreate: { success: boolean; comment?: IssueDetailsComment | null } }> = await this.mutate(`
+            mutation CommentCreate($input: CommentCreateInput!) {
+                commentCreate(input: $input) {
+                    success
+                    comment { id body createdAt user { name } }
+                }
+            }
+        `, { input: { issueId, body } });
+        const payload = response?.data?.commentCreate;
+        const comment = payload?.success ? payload.comment : undefined;
+        if (!comment) {
+            throw new Error(`Linear did not add the comment to issue ${issueId}`);
+        }
+
+        const created: CommentNode = {
+            id: comment.id,
+            body: comment.body,
+            createdAt: comment.createdAt,
+            author: comment.user?.name ?? 'Unknown'
+        };
+        this.cache.update('details', (value, key) => {
+            const details = value as IssueDetails;
+            return key === issueId ? { ...details, comments: details.comments.concat(created) } : details;
+        });
+        log(this.settings, 'Comment created:', created);
+        return created;
+    }
+
+    async updateIssueState(issueId: string, stateId: string): Promise<LinearIssue> {
+        return this.updateIssue(issueId, { stateId });
+    }
+
+    async updateIssueAssignee(issueId: string, assigneeId: string | null): Promise<LinearIssue> {
+        return this.updateIssue(issueId, { assigneeId });
+    }
+
+    async updateIssuePriority(issueId: string, priority: number): Promise<LinearIssue> {
+        return this.updateIssue(issueId, { priority });
+    }
+
+    async updateIssueDueDate(issueId: string, dueDate: string | null): Promise<LinearIssue> {
+        return this.updateIssue(issueId, { dueDate });
+    }
+}
@@ -0,0 +1,89 @@
+import { LinearError, LinearErrorType, RatelimitedLinearError } from "@linear/sdk";
+
+/**
+ * What kept a request from succeeding, for callers that react to each differently:
+ * - `unauthorized`: Linear rejected the API key or sign-in, or there is none
+ * - `offline`: Linear couldn't be reached
+ * - `rate-limited`: the workspace used up its request allowance for now
+ * - `not-found`: a team, status or issue named by the block doesn't exist
+ * - `invalid-filter`: Linear rejected the query built from the block's options
+ * - `server`: anything else, such as Linear failing or answering without data
+ */
+export type LinearErrorKind = 'unauthorized' | 'offline' | 'rate-limited' | 'not-found' | 'invalid-filter' | 'server';
+
+export class LinearServiceError extends Error {
+    constructor(
+        readonly kind: LinearErrorKind,
+        message: string,
+        // When a rate-limited request can be sent again, in epoch ms
+        readonly retryAt: number | null = null
+    ) {
+        super(message);
+        this.name = 'LinearServiceError';
+    }
+}
+
+const UNAUTHORIZED_ERRORS = [LinearErrorType.AuthenticationError, LinearErrorType.Forbidden, LinearErrorType.FeatureNotAccessible];
+const INVALID_ERRORS = [LinearErrorType.InvalidInput, LinearErrorType.GraphqlError, LinearErrorType.UserError];
+
+// Linear answers a reference to a missing issue, team or other entity with an
+// invalid input error whose message starts with this
+const ENTITY_NOT_FOUND = 'Entity not found';
+
+function entityNotFound(error: LinearError): string | null {
+    const missing = error.raw?.response?.errors?.find(graphQLError =>
+        graphQLError.extensions?.userError && graphQLError.message?.startsWith(ENTITY_NOT_FOUND));
+    if (!missing) return null;
+    return missing.extensions?.userPresentableMessage ?? missing.message ?? ENTITY_NOT_FOUND;
+}
+
+/**
+ * Marks a failure of sending a request, before Linear answered, as offline.
+ * Only the request itself is wrapped with this, so bugs elsewhere aren't
+ * mistaken for a lost connection. Linear's answers pass through unchanged.
+ */
+export function requestFailure(error: unknown): unknown {
+    if (error instanceof LinearError || error instanceof LinearServiceError) return error;
+    return new LinearServiceError('offline', "Linear can't be reached");
+}
+
+/**
+ * Sorts any error from talking to Linear into one of the kinds above.
+ */
+export function toServiceError(error: unknown): LinearServiceError {
+    if (error instanceof LinearServiceError) return error;
+
+    if (error instanceof RatelimitedLinearError) {
+        const retryAt = error.retryAfter
+            ? Date.now() + error.retryAfter * 1000
+            : Math.max(error.requestsResetAt ?? 0, error.complexityResetAt ?? 0);
+        return new LinearServiceError(
+            'rate-limited',
+            `Linear's rate limit was reached${retryAt ? `, try again after ${new Date(retryAt).toLocaleTimeString()}` : ''}`,
+            retryAt || null
+        );
+    }
+
+    if (error instanceof LinearError) {
+        const type = error.type as LinearErrorType;
+        // Linear's gateway answering with a 5xx status
+        if (type === LinearErrorType.NetworkError) {
+            return new LinearServiceError('offline', "Linear can't be reached");
+        }
+        const notFound = entityNotFound(error);
+        if (notFound) {
+            return new LinearServiceError('not-found', notFound);
+        }
+        if (UNAUTHORIZED_ERRORS.includes(type)) {
+            return new LinearServiceError('unauthorized', "Linear didn't accept the API key or sign-in");
+        }
+        if (type === LinearErrorType.UsageLimitExceeded) {
+            return new LinearServiceError('rate-limited', "The workspace's Linear usage limit was reached");
+        }
+        if (INVALID_ERRORS.includes(type)) {
+            return new LinearServiceError('invalid-filter', error.message);
+        }
+    }
+
+    return new LinearServiceError('server', error instanceof Error ? error.message : String(error));
+}
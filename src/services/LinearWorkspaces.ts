@@ -0,0 +1,112 @@
+import { LinearPluginSettings, WorkspaceProfile } from '../settings';
+import { LinearCache, CacheData } from './LinearCache';
+import { LinearService } from './LinearService';
+import { LinearAuth } from './LinearAuth';
+
+interface Workspace {
+    service: LinearService;
+    cache: LinearCache;
+    identity: string; // credentials the cached data was loaded with
+}
+
+// Refreshed access tokens still reach the same workspace, so a sign-in counts as one
+// identity. Each new sign-in may reach another workspace, see `signedIn`.
+function identityOf(profile: WorkspaceProfile): string {
+    return profile.accessToken ? 'oauth' : profile.apiKey;
+}
+
+/**
+ * One service and cache per workspace profile in settings. Call `update` after
+ * profiles are added, removed or given other credentials.
+ */
+export class LinearWorkspaces {
+    private workspaces = new Map<string, Workspace>(); // by profile id
+
+    constructor(
+        private settings: LinearPluginSettings,
+        private cacheData: Record<string, Partial<CacheData>>,
+        private auth: LinearAuth,
+        private onChange: () => void
+    ) {
+        this.update();
+    }
+
+    update() {
+        const ids = new Set(this.settings.workspaces.map(profile => profile.id));
+        for (const id of Array.from(this.workspaces.keys())) {
+            if (!ids.has(id)) this.workspaces.delete(id);
+        }
+        for (const profile of this.settings.workspaces) {
+            const workspace = this.workspaces.get(profile.id);
+            if (!workspace) {
+                const cache = new LinearCache(this.cacheData[profile.id], this.onChange);
+                const service = new LinearService(this.settings, profile, cache, this.auth);
+                this.workspaces.set(profile.id, { service, cache, identity: identityOf(profile) });
+            } else if (workspace.identity !== identityOf(profile)) {
+                // Data cached with other credentials may belong to another workspace entirely
+                workspace.service.reset();
+                workspace.cache.clear();
+                workspace.identity = identityOf(profile);
+            }
+        }
+    }
+
+    /**
+     * Forgets the data cached for a profile that was just signed in to. The
+     * account may belong to another Linear workspace than the last sign-in.
+     */
+    signedIn(profile: WorkspaceProfile) {
+        const workspace = this.workspaces.get(profile.id);
+        if (!workspace) return;
+        workspace.service.reset();
+        workspace.cache.clear();
+        workspace.identity = identityOf(profile);
+    }
+
+    get all(): LinearService[] {
+        return this.settings.workspaces
+            .map(profile => this.workspaces.get(profile.id)?.service)
+            .filter((service): service is LinearService => !!service);
+    }
+
+    get configured(): LinearService[] {
+        return this.all.filter(service => service.isConfigured);
+    }
+
+    /**
+     * The workspace chosen as default in settings, or else the first one.
+     */
+    get default(): LinearService {
+        return this.workspaces.get(this.settings.defaultWorkspace)?.service ?? this.all[0];
+    }
+
+    /**
+     * Looks a workspace up by profile name, case-insensitively. Without a name
+     * this is the default workspace.
+     */
+    find(name?: string): LinearService | null {
+        if (!name) return this.default;
+        return this.all.find(service => service.workspaceName.toLowerCase() === name.trim().toLowerCase()) ?? null;
+    }
+
+    /**
+     * The workspace with a team using the key of `identifier`, e.g. ENG for ENG-123,
+     * going by the cached teams.
+     */
+    forIdentifier(identifier: string): LinearService | null {
+        const key = identifier.split('-')[0];
+        return this.configured.find(service => service.peekTeams()?.some(team => team.key === key)) ?? null;
+    }
+
+    clearCaches() {
+        for (const { cache } of Array.from(this.workspaces.values())) {
+            cache.clear();
+        }
+    }
+
+    toJSON(): Record<string, CacheData> {
+        const data: Record<string, CacheData> = {};
+        this.workspaces.forEach(({ cache }, id) => data[id] = cache.toJSON());
+        return data;
+    }
+}
@@ -0,0 +1,180 @@
+import { LinearError, LinearErrorType, LinearRawResponse, RatelimitedLinearError } from "@linear/sdk";
+import { LinearPluginSettings } from '../settings';
+import { log } from '../log';
+import { LinearServiceError } from './LinearServiceError';
+
+export interface QueuedRequest {
+    // Requests with the same key share one response while it is in flight
+    key?: string;
+    // Safe to send again after a network or server error. Requests Linear
+    // turned away for the rate limit weren't run, so those are always retried.
+    idempotent: boolean;
+}
+
+// Requests sent to Linear at the same time, per workspace
+const MAX_CONCURRENT = 4;
+// Attempts after the first before giving up
+const MAX_RETRIES = 4;
+const BASE_DELAY = 500; // ms
+const MAX_DELAY = 30 * 1000; // ms
+// Stop this many requests short of the hourly allowance, rather than have Linear turn requests away
+const REQUEST_RESERVE = 10;
+
+const TRANSIENT_ERRORS = [LinearErrorType.NetworkError, LinearErrorType.InternalError, LinearErrorType.LockTimeout];
+
+function sleep(ms: number): Promise<void> {
+    return new Promise(resolve => window.setTimeout(resolve, ms));
+}
+
+function headerNumber(headers: Headers | undefined, name: string): number | undefined {
+    const value = headers?.get(name);
+    return value ? Number(value) : undefined;
+}
+
+/**
+ * Sends one workspace's requests to Linear. It caps how many run at once and
+ * retries transient failures with exponential backoff and jitter. It follows
+ * the rate-limit headers of each response, holding requests back once the
+ * allowance runs low until it resets. Identical reads already in flight
+ * share their response.
+ */
+export class RequestQueue {
+    private active = 0;
+    private waiting: (() => void)[] = [];
+    private inFlight: Map<string, Promise<unknown>> = new Map();
+    private pausedUntil = 0; // epoch ms
+    private lastComplexity = 0; // cost of the last request, in Linear's complexity points
+
+    constructor(private settings: LinearPluginSettings, private workspaceName: string) {}
+
+    /**
+     * Forgets the rate-limit state and requests in flight, for when the
+     * workspace's credentials change. Requests sent with the old credentials
+     * still answer their callers, but new ones aren't joined to them.
+     */
+    reset() {
+        this.inFlight.clear();
+        this.pausedUntil = 0;
+        this.lastComplexity = 0;
+    }
+
+    run<T>(request: QueuedRequest, send: () => Promise<LinearRawResponse<T>>): Promise<LinearRawResponse<T>> {
+        if (!request.key) {
+            return this.attempt(request, send);
+        }
+
+        const { key } = request;
+        let pending = this.inFlight.get(key) as Promise<LinearRawResponse<T>> | undefined;
+        if (pending) {
+            log(this.settings, 'Joining request already in flight');
+            return pending;
+        }
+        const sent: Promise<LinearRawResponse<T>> = this.attempt(request, send).finally(() => {
+            // A reset may have let a newer request take the key meanwhile
+            if (this.inFlight.get(key) === sent) this.inFlight.delete(key);
+        });
+        this.inFlight.set(key, sent);
+        return sent;
+    }
+
+    private async attempt<T>(request: QueuedRequest, send: () => Promise<LinearRawResponse<T>>): Promise<LinearRawResponse<T>> {
+        for (let retry = 0; ; retry++) {
+            await this.waitForAllowance();
+            await this.acquire();
+            let delay: number;
+            try {
+                const response = await send();
+                this.noteLimits(response.headers);
+                return response;
+            } catch (error) {
+                const retryDelay = this.retryDelay(error, request, retry);
+                if (retryDelay === null) throw error;
+                delay = retryDelay;
+                log(this.settings, `Request to Linear failed, retrying in ${Math.round(delay)}ms`, error, true);
+            } finally {
+                this.release();
+            }
+            // Other requests can use the slot meanwhile
+            await sleep(delay);
+        }
+    }
+
+    /**
+     * How long to wait before retrying a failed request, or null to give up.
+     */
+    private retryDelay(error: unknown, request: QueuedRequest, retry: number): number | null {
+        if (retry >= MAX_RETRIES) return null;
+
+        if (error instanceof RatelimitedLinearError) {
+            const resetAt = Math.max(error.requestsResetAt ?? 0, error.complexityResetAt ?? 0);
+            this.pause(error.retryAfter ? Date.now() + error.retryAfter * 1000 : resetAt);
+            return this.backoff(retry);
+        }
+
+        // Requests that never reached Linear are marked offline by the sender
+        const transient = error instanceof LinearError
+            ? TRANSIENT_ERRORS.includes(error.type as LinearErrorType)
+            : error instanceof LinearServiceError && error.kind === 'offline';
+        return transient && request.idempotent ? this.backoff(retry) : null;
+    }
+
+    // Exponential backoff with full jitter, so blocks that failed together don't retry together
+    private backoff(retry: number): number {
+        return Math.random() * Math.min(MAX_DELAY, BASE_DELAY * 2 ** retry);
+    }
+
+    private noteLimits(headers: Headers | undefined) {
+        const requestsRemaining = headerNumber(headers, 'x-ratelimit-requests-remaining');
+        const complexityRemaining = headerNumber(headers, 'x-ratelimit-complexity-remaining');
+        this.lastComplexity = headerNumber(headers, 'x-complexity') ?? this.lastComplexity;
+
+        if (requestsRemaining !== undefined && requestsRemaining <= REQUEST_RESERVE) {
+            this.pause(headerNumber(headers, 'x-ratelimit-requests-reset') ?? 0);
+        }
+        // Wait for the reset once another request like the last one wouldn't fit
+        if (complexityRemaining !== undefined && complexityRemaining < this.lastComplexity) {
+            this.pause(headerNumber(headers, 'x-ratelimit-complexity-reset') ?? 0);
+        }
+    }
+
+    private pause(until: number) {
+        if (until <= this.pausedUntil) return;
+        this.pausedUntil = until;
+        log(this.settings, `Linear rate limit reached for "${this.workspaceName}", holding requests until ${new Date(until).toLocaleTimeString()}`);
+    }
+
+    /**
+     * Waits out a short pause for the rate limit. Requests fail straight away
+     * during a long one, so blocks fall back to cached issues.
+     */
+    private async waitForAllowance() {
+        const wait = this.pausedUntil - Date.now();
+        if (wait <= 0) return;
+        if (wait > MAX_DELAY) {
+            throw new LinearServiceError(
+                'rate-limited',
+                `Linear's rate limit was reached, try again after ${new Date(this.pausedUntil).toLocaleTimeString()}`,
+                this.pausedUntil
+            );
+        }
+        await sleep(wait);
+    }
+
+    private async acquire() {
+        if (this.active < MAX_CONCURRENT) {
+            this.active++;
+            return;
+        }
+        // The slot is handed over by release()
+        await new Promise<void>(resolve => this.waiting.push(resolve));
+    }
+
+    private release() {
+        const next = this.waiting.shift();
+        if (next) {
+            next();
+        } else {
+            this.active--;
+        }
+    }
+}
@@ -1,9 +1,106 @@
-export interface LinearPluginSettings {
+import { IssueColumn, DEFAULT_COLUMNS } from './renderers/display';
+import {
+    ReleaseNotesGrouping,
+    DEFAULT_RELEASE_NOTES_TEMPLATE,
+    DEFAULT_RELEASE_NOTES_ISSUE_TEMPLATE
+} from './export/ReleaseNotes';
+
+// What replaces the selection once an issue has been created from a note
+export type IssueInsertMode = 'link' | 'block' | 'none';
+
+// Issue fields whose edits in synced notes are sent back to Linear
+export type SyncField = 'state' | 'assignee' | 'priority' | 'dueDate';
+
+/**
+ * A Linear workspace and the credentials used to reach it. `id` stays the same
+ * when the profile is renamed, so its cache survives.
+ */
+export interface WorkspaceProfile {
+    id: string;
+    name: string;
     apiKey: string;
+    // Set by signing in with Linear, and used instead of the API key
+    accessToken?: string;
+    refreshToken?: string;
+    tokenExpiresAt?: number; // epoch ms
+    defaultTeam: string; // team name or key for blocks and new issues that don't name one
+}
+
+export type WorkspaceCredentials = Pick<WorkspaceProfile, 'apiKey' | 'accessToken' | 'refreshToken' | 'tokenExpiresAt'>;
+
+export function credentialsOf(profile: WorkspaceProfile): WorkspaceCredentials {
+    const { apiKey, accessToken, refreshToken, tokenExpiresAt } = profile;
+    return { apiKey, accessToken, refreshToken, tokenExpiresAt };
+}
+
+/**
+ * A copy of the settings without workspace credentials, for the plugin's data
+ * file and debug logs.
+ */
+export function withoutCredentials(settings: LinearPluginSettings): LinearPluginSettings {
+    return {
+        ...settings,
+        workspaces: settings.workspaces.map(({ id, name, defaultTeam }) => ({ id, name, apiKey: '', defaultTeam }))
+    };
+}
+
+/**
+ * Block options saved under a name, for blocks to use with `query: <name>`.
+ */
+export interface SavedQuery {
+    name: string;
+    source: string; // written like the options of a linear block
+}
+
+export interface LinearPluginSettings {
+    workspaces: WorkspaceProfile[];
+    defaultWorkspace: string; // profile id
+    oauthClientId: string; // Linear OAuth application used to sign in
     debugMode: boolean;
+    maxIssues: number; // cap for blocks without a limit, 0 for none
+    issueCacheTtl: number; // minutes
+    metadataCacheTtl: number; // minutes, for teams, workflow states and users
+    allowEditing: boolean; // change issues from rendered blocks
+    insertIssueAs: IssueInsertMode;
+    commentNoteLink: boolean; // end comments posted from notes with a link to the note
+    inlineChips: boolean; // show issue identifiers in notes as chips
+    savedQueries: SavedQuery[];
+    syncFolder: string; // vault folder holding one note per synced issue
+    syncQuery: string; // block options choosing the issues to sync
+    syncInterval: number; // minutes, 0 to sync only from the command
+    syncPushFields: SyncField[];
+    exportColumns: IssueColumn[]; // for blocks without a columns option
+    cardTemplate: string; // Markdown for issue cards, empty for the built-in card
+    releaseNotesFolder: string;
+    releaseNotesGroupBy: ReleaseNotesGrouping;
+    releaseNotesTemplate: string; // whole note, with the issues in {{issues}}
+    releaseNotesIssueTemplate: string; // one line per issue
 }
 
+// Syncing more often than this would mostly spend the API rate limit, in minutes
+export const MIN_SYNC_INTERVAL = 1;
+
 export const DEFAULT_SETTINGS: LinearPluginSettings = {
-    apiKey: '',
-    debugMode: false
-}; 
\ No newline at end of file
+    workspaces: [],
+    defaultWorkspace: '',
+    oauthClientId: '',
+    debugMode: false,
+    maxIssues: 250,
+    issueCacheTtl: 5,
+    metadataCacheTtl: 60,
+    allowEditing: true,
+    insertIssueAs: 'link',
+    commentNoteLink: true,
+    inlineChips: true,
+    savedQueries: [],
+    syncFolder: 'Linear',
+    syncQuery: '',
+    syncInterval: 0,
+    syncPushFields: ['state', 'dueDate'],
+    exportColumns: DEFAULT_COLUMNS,
+    cardTemplate: '',
+    releaseNotesFolder: 'Release notes',
+    releaseNotesGroupBy: 'label',
+    releaseNotesTemplate: DEFAULT_RELEASE_NOTES_TEMPLATE,
+    releaseNotesIssueTemplate: DEFAULT_RELEASE_NOTES_ISSUE_TEMPLATE
+};
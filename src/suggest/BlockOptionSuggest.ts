@@ -0,0 +1,171 @@
+import { App, Editor, EditorPosition, EditorSuggest, EditorSuggestContext, EditorSuggestTriggerInfo } from "obsidian";
+import { LinearService, IssueSummary } from "../services/LinearService";
+import { LinearWorkspaces } from "../services/LinearWorkspaces";
+import { LinearPluginSettings } from '../settings';
+import { log } from '../log';
+import { BLOCK_OPTIONS } from '../query/schema';
+import { IssueSearch, renderIssueSuggestion } from './IssueSuggest';
+
+interface OptionSuggestion {
+    // Text inserted in place of the query
+    value: string;
+    detail?: string;
+    issue?: IssueSummary;
+}
+
+// Options whose values are issue identifiers
+const ISSUE_OPTIONS = ['id', 'issueId', 'ids'];
+
+// Suggestions shown for one query
+const MAX_SUGGESTIONS = 50;
+
+/**
+ * Completes option keys and values inside `linear` code blocks. Values for
+ * teams, states, people, labels and projects come from the workspace named by
+ * the block's `workspace` option, the rest from the block option schema.
+ */
+export class BlockOptionSuggest extends EditorSuggest<OptionSuggestion> {
+    // The option being completed, or null while completing a key
+    private key: string | null = null;
+    // The workspace of the block being edited
+    private linearService: LinearService;
+    private issueSearch: IssueSearch;
+
+    constructor(app: App, private settings: LinearPluginSettings, private workspaces: LinearWorkspaces) {
+        super(app);
+        this.issueSearch = new IssueSearch(settings);
+    }
+
+    private insideLinearBlock(editor: Editor, line: number): boolean {
+        if (/^\s*(```|~~~)/.test(editor.getLine(line))) return false;
+        for (let number = line - 1; number >= 0; number--) {
+            const text = editor.getLine(number);
+            if (/^\s*(```+|~~~+)\s*linear\s*$/.test(text)) return true;
+            if (/^\s*(```|~~~)/.test(text)) return false;
+        }
+        return false;
+    }
+
+    /**
+     * The workspace named in the block around `line`, or the default one.
+     */
+    private blockWorkspace(editor: Editor, line: number): LinearService {
+        const fence = /^\s*(```|~~~)/;
+        let first = line;
+        let last = line;
+        while (first > 0 && !fence.test(editor.getLine(first - 1))) first--;
+        while (last < editor.lineCount() - 1 && !fence.test(editor.getLine(last + 1))) last++;
+
+        for (let number = first; number <= last; number++) {
+            const name = editor.getLine(number).match(/^\s*workspace:\s*["']?([^"']+?)["']?\s*$/)?.[1];
+            if (name) return this.workspaces.find(name) ?? this.workspaces.default;
+        }
+        return this.workspaces.default;
+    }
+
+    onTrigger(cursor: EditorPosition, editor: Editor): EditorSuggestTriggerInfo | null {
+        if (!this.insideLinearBlock(editor, cursor.line)) return null;
+        this.linearService = this.blockWorkspace(editor, cursor.line);
+        const before = editor.getLine(cursor.line).slice(0, cursor.ch);
+
+        const keyMatch = before.match(/^(\s*)([A-Za-z]+)$/);
+        if (keyMatch) {
+            this.key = null;
+            return {
+                start: { line: cursor.line, ch: keyMatch[1].length },
+                end: cursor,
+                query: keyMatch[2]
+            };
+        }
+
+        // Complete the last item of a value or list, after any "!", comparison or quote
+        const valueMatch = before.match(/^\s*([A-Za-z]+):\s*(?:.*[[,]\s*)?["']?(?:!|[<>]=?|=)?\s*([^,[\]"']*)$/);
+        if (valueMatch && BLOCK_OPTIONS[valueMatch[1]]) {
+            this.key = valueMatch[1];
+            return {
+                start: { line: cursor.line, ch: before.length - valueMatch[2].length },
+                end: cursor,
+                query: valueMatch[2]
+            };
+        }
+        return null;
+    }
+
+    async getSuggestions(context: EditorSuggestContext): Promise<OptionSuggestion[]> {
+        const query = context.query.trim().toLowerCase();
+        let suggestions: OptionSuggestion[];
+        try {
+            suggestions = this.key === null
+                ? Object.entries(BLOCK_OPTIONS).map(([key, schema]) => ({ value: `${key}: `, detail: schema.expected }))
+                : await this.valueSuggestions(this.key, context.query.trim());
+        } catch (error) {
+            log(this.settings, `Failed to load suggestions for "${this.key}"`, error, true);
+            return [];
+        }
+
+        return suggestions
+            .filter(suggestion => suggestion.issue || suggestion.value.toLowerCase().includes(query))
+            .slice(0, MAX_SUGGESTIONS);
+    }
+
+    private async valueSuggestions(key: string, query: string): Promise<OptionSuggestion[]> {
+        if (ISSUE_OPTIONS.includes(key)) {
+            const issues = await this.issueSearch.search(this.linearService, query);
+            return issues.map(issue => ({ value: issue.identifier, issue }));
+        }
+
+        switch (key) {
+            case 'workspace':
+                return this.workspaces.all.map(service => ({ value: service.workspaceName }));
+            case 'query':
+                return this.settings.savedQueries.map(query => ({ value: query.name, detail: query.source.split('\n').join(', ') }));
+            case 'team': {
+                const teams = await this.linearService.getTeams();
+                return teams.map(team => ({ value: team.name, detail: team.key }));
+            }
+            case 'status': {
+                const states = await this.linearService.getWorkflowStates();
+                const names = new Map<string, string[]>();
+                for (const state of states) {
+                    names.set(state.name, (names.get(state.name) ?? []).concat(state.team?.name ?? []));
+                }
+                return Array.from(names, ([name, teams]) => ({ value: name, detail: teams.join(', ') }));
+            }
+            case 'assignee':
+            case 'creator': {
+                const users = await this.linearService.getUsers();
+                const special: OptionSuggestion[] = [{ value: 'me', detail: 'You' }];
+                if (key === 'assignee') special.push({ value: 'none', detail: 'Unassigned' });
+                return special.concat(users.map(user => ({ value: user.email, detail: user.name })));
+            }
+            case 'label': {
+                const labels = await this.linearService.getLabels();
+                return Array.from(new Set(labels.map(label => label.name)), name => ({ value: name }));
+            }
+            case 'project': {
+                const projects = await this.linearService.getProjects();
+                const none: OptionSuggestion[] = [{ value: 'none', detail: 'No project' }];
+                return none.concat(projects.map(project => ({ value: project.name })));
+            }
+            default:
+                return (BLOCK_OPTIONS[key].values ?? []).map(value => ({ value }));
+        }
+    }
+
+    renderSuggestion(suggestion: OptionSuggestion, el: HTMLElement) {
+        if (suggestion.issue) {
+            renderIssueSuggestion(suggestion.issue, el);
+            return;
+        }
+        el.addClass('linear-suggestion');
+        el.createSpan({ cls: 'linear-suggestion-identifier', text: suggestion.value.replace(/: $/, '') });
+        if (suggestion.detail) {
+            el.createSpan({ cls: 'linear-suggestion-title', text: suggestion.detail });
+        }
+    }
+
+    selectSuggestion(suggestion: OptionSuggestion) {
+        if (!this.context) return;
+        this.context.editor.replaceRange(suggestion.value, this.context.start, this.context.end);
+    }
+}
@@ -0,0 +1,112 @@
+import { App, Editor, EditorPosition, EditorSuggest, EditorSuggestContext, EditorSuggestTriggerInfo } from "obsidian";
+import { LinearService, IssueSummary } from "../services/LinearService";
+import { LinearWorkspaces } from "../services/LinearWorkspaces";
+import { LinearPluginSettings } from '../settings';
+import { log } from '../log';
+
+// "ENG-" or "ENG-12" typed at the cursor
+const IDENTIFIER_PREFIX = /(?<![\w/#-])([A-Z][A-Z0-9_]*)-(\d*)$/;
+// "@linear" followed by an optional search term
+const LINEAR_TRIGGER = /(?:^|\s)(@linear(?:\s+(.*))?)$/;
+// Pause in typing before a search is sent, so each keystroke doesn't cost a request
+const SEARCH_DELAY = 250; // ms
+
+/**
+ * Searches issues as a term is typed. A search is only sent once typing
+ * pauses, and one overtaken by a newer search answers with the last results
+ * instead, so a slow response never replaces those of a later term.
+ */
+export class IssueSearch {
+    private latest = 0; // searches started
+    private results: IssueSummary[] = [];
+
+    constructor(private settings: LinearPluginSettings) {}
+
+    async search(linearService: LinearService, term: string, teamKey?: string): Promise<IssueSummary[]> {
+        const search = ++this.latest;
+        await new Promise(resolve => window.setTimeout(resolve, SEARCH_DELAY));
+        if (search !== this.latest) return this.results;
+
+        try {
+            const issues = await linearService.searchIssues(term, teamKey);
+            if (search === this.latest) this.results = issues;
+        } catch (error) {
+            log(this.settings, 'Failed to search issues', error, true);
+            if (search === this.latest) this.results = [];
+        }
+        return this.results;
+    }
+}
+
+/**
+ * Suggests issues while an identifier is typed after a known team key, or
+ * after "@linear", and inserts the chosen issue's identifier. Team keys are
+ * searched in the workspace they belong to, "@linear" in the default one.
+ */
+export class IssueSuggest extends EditorSuggest<IssueSummary> {
+    private issueSearch: IssueSearch;
+
+    constructor(app: App, private settings: LinearPluginSettings, private workspaces: LinearWorkspaces) {
+        super(app);
+        this.issueSearch = new IssueSearch(settings);
+        this.setInstructions([{ command: '↵', purpose: 'insert identifier' }]);
+    }
+
+    private serviceForKey(key: string): LinearService | null {
+        return this.workspaces.forIdentifier(`${key}-`);
+    }
+
+    onTrigger(cursor: EditorPosition, editor: Editor): EditorSuggestTriggerInfo | null {
+        if (!this.workspaces.configured.length) return null;
+        const before = editor.getLine(cursor.line).slice(0, cursor.ch);
+
+        const trigger = before.match(LINEAR_TRIGGER);
+        if (trigger) {
+            return {
+                start: { line: cursor.line, ch: before.length - trigger[1].length },
+                end: cursor,
+                query: trigger[2] ?? ''
+            };
+        }
+
+        const prefix = before.match(IDENTIFIER_PREFIX);
+        if (prefix && this.serviceForKey(prefix[1])) {
+            return {
+                start: { line: cursor.line, ch: before.length - prefix[0].length },
+                end: cursor,
+                query: prefix[0]
+            };
+        }
+        return null;
+    }
+
+    async getSuggestions(context: EditorSuggestContext): Promise<IssueSummary[]> {
+        // A bare team prefix lists that team's recent issues, anything else is a search
+        const prefix = context.query.match(/^([A-Z][A-Z0-9_]*)-(\d*)$/);
+        const teamService = prefix ? this.serviceForKey(prefix[1]) : null;
+        const teamKey = teamService ? prefix![1] : undefined;
+        const term = teamKey ? (prefix![2] ? context.query : '') : context.query;
+
+        return this.issueSearch.search(teamService ?? this.workspaces.default, term, teamKey);
+    }
+
+    renderSuggestion(issue: IssueSummary, el: HTMLElement) {
+        renderIssueSuggestion(issue, el);
+    }
+
+    selectSuggestion(issue: IssueSummary) {
+        if (!this.context) return;
+        this.context.editor.replaceRange(issue.identifier, this.context.start, this.context.end);
+    }
+}
+
+export function renderIssueSuggestion(issue: IssueSummary, el: HTMLElement) {
+    el.addClass('linear-suggestion');
+    const statusEl = el.createSpan({ cls: 'linear-chip-status' });
+    if (issue.state) {
+        statusEl.style.setProperty('--linear-state-color', issue.state.color);
+        statusEl.setAttribute('aria-label', issue.state.name);
+    }
+    el.createSpan({ cls: 'linear-suggestion-identifier', text: issue.identifier });
+    el.createSpan({ cls: 'linear-suggestion-title', text: issue.title });
+}
@@ -0,0 +1,315 @@
+import { App, TFile, TFolder, normalizePath, stringifyYaml } from "obsidian";
+import { LinearService, LinearIssue } from "../services/LinearService";
+import { LinearWorkspaces } from "../services/LinearWorkspaces";
+import { LinearPluginSettings, SyncField } from '../settings';
+import { log } from '../log';
+import { PRIORITY_LEVELS, parsePriorityLevel } from '../query/filters';
+import { parseBlockOptions } from '../query/options';
+import { queryVariables } from '../query/variables';
+
+/**
+ * What was last written to an issue's note. Local edits are found by comparing
+ * the note's frontmatter against `fields`, and changes in Linear by comparing
+ * the issue's `updatedAt`.
+ */
+export interface SyncRecord {
+    path: string;
+    updatedAt: string;
+    fields: Record<SyncField, string | null>;
+    // Fields that were edited on both sides at the last sync
+    conflict?: SyncField[];
+}
+
+// Sync records by issue ID, saved with the plugin data
+export type SyncState = Record<string, SyncRecord>;
+
+export interface SyncResult {
+    created: number;
+    updated: number;
+    pushed: number;
+    conflicts: string[];
+    errors: string[];
+}
+
+export const SYNC_FIELDS: SyncField[] = ['state', 'assignee', 'priority', 'dueDate'];
+
+// Frontmatter key that marks a note whose edits conflict with Linear
+const CONFLICT_KEY = 'syncConflict';
+
+// The synced description sits between these, so the rest of the note is the user's
+const DESCRIPTION_START = '<!-- linear-description -->';
+const DESCRIPTION_END = '<!-- /linear-description -->';
+
+function descriptionSection(issue: LinearIssue): string {
+    return `${DESCRIPTION_START}\n${issue.description ?? ''}\n${DESCRIPTION_END}`;
+}
+
+function priorityName(priority: number): string {
+    return Object.keys(PRIORITY_LEVELS).find(name => PRIORITY_LEVELS[name] === priority) ?? 'none';
+}
+
+function fieldValues(issue: LinearIssue): Record<SyncField, string | null> {
+    return {
+        state: issue.state?.name ?? null,
+        assignee: issue.assignee?.email ?? null,
+        priority: priorityName(issue.priority),
+        dueDate: issue.dueDate ?? null
+    };
+}
+
+function frontmatterFor(issue: LinearIssue): Record<string, unknown> {
+    const fields = fieldValues(issue);
+    return {
+        identifier: issue.identifier,
+        title: issue.title,
+        state: fields.state,
+        assignee: fields.assignee,
+        priority: fields.priority,
+        labels: issue.labels.map(label => label.name),
+        project: issue.project?.name ?? null,
+        cycle: issue.cycle?.number ?? null,
+        dueDate: fields.dueDate,
+        url: issue.url,
+        updatedAt: issue.updatedAt
+    };
+}
+
+function normalizeValue(value: unknown): string | null {
+    if (value === null || value === undefined) return null;
+    const text = String(value).trim();
+    return text ? text : null;
+}
+
+function sameValue(a: string | null, b: string | null): boolean {
+    return (a ?? '').toLowerCase() === (b ?? '').toLowerCase();
+}
+
+/**
+ * Keeps one note per issue in the sync folder. Issue fields are written to
+ * frontmatter and the description to a marked section of the body; edits to the fields chosen in
+ * settings are sent back to Linear unless Linear changed them too.
+ */
+export class IssueSync {
+    private running = false;
+    // The workspace named by the sync query, set for the length of a run
+    private linearService: LinearService;
+
+    constructor(
+        private app: App,
+        private settings: LinearPluginSettings,
+        private workspaces: LinearWorkspaces,
+        private state: SyncState,
+        private onChange: () => void
+    ) {}
+
+    get isRunning(): boolean {
+        return this.running;
+    }
+
+    /**
+     * Syncs every issue matching the sync query. Throws if the query is invalid
+     * or Linear can't be reached; problems with single issues are collected in
+     * the result instead.
+     */
+    async run(): Promise<SyncResult> {
+        if (this.running) {
+            throw new Error('A sync is already running');
+        }
+        if (!this.settings.syncQuery.trim()) {
+            throw new Error('Set a sync query in the Linear settings first');
+        }
+
+        const { options, parsed, diagnostics } = parseBlockOptions(
+            this.settings.syncQuery,
+            this.settings.savedQueries,
+            queryVariables(this.app, '')
+        );
+        if (diagnostics.length) {
+            const [first] = diagnostics;
+            throw new Error(`The sync query has a problem: ${first.key ? `${first.key}: ` : ''}${first.message}`);
+        }
+
+        const service = this.workspaces.find(parsed.workspace);
+        if (!service) {
+            throw new Error(`The sync query names an unknown workspace "${parsed.workspace}"`);
+        }
+        if (!service.isConfigured) {
+            throw new Error(`Please configure the API key for the "${service.workspaceName}" workspace in settings`);
+        }
+        this.linearService = service;
+
+        this.running = true;
+        try {
+            const folder = normalizePath(this.settings.syncFolder || 'Linear');
+            await this.ensureFolder(folder);
+
+            // Every matching issue, not just as many as a block would show
+            const { issues } = await this.linearService.fetchAllIssues(options);
+            log(this.settings, `Syncing ${issues.length} issues into ${folder}`);
+
+            const result: SyncResult = { created: 0, updated: 0, pushed: 0, conflicts: [], errors: [] };
+            for (const issue of issues) {
+                try {
+                    await this.syncIssue(issue, folder, result);
+                } catch (error) {
+                    log(this.settings, `Failed to sync ${issue.identifier}`, error, true);
+                    result.errors.push(`${issue.identifier}: ${error instanceof Error ? error.message : String(error)}`);
+                }
+            }
+            this.onChange();
+            log(this.settings, 'Sync finished:', result);
+            return result;
+        } finally {
+            this.running = false;
+        }
+    }
+
+    private async ensureFolder(folder: string) {
+        let path = '';
+        for (const part of folder.split('/')) {
+            path = path ? `${path}/${part}` : part;
+            const existing = this.app.vault.getAbstractFileByPath(path);
+            if (!existing) {
+                await this.app.vault.createFolder(path);
+            } else if (!(existing instanceof TFolder)) {
+                throw new Error(`"${path}" is a file, not a folder`);
+            }
+        }
+    }
+
+    private findNote(issue: LinearIssue, folder: string): TFile | null {
+        // Notes keep their path when an issue moves teams and gets a new identifier
+        const record = this.state[issue.id];
+        for (const path of [record?.path, `${folder}/${issue.identifier}.md`]) {
+            const file = path ? this.app.vault.getAbstractFileByPath(path) : null;
+            if (file instanceof TFile) return file;
+        }
+        return null;
+    }
+
+    private async syncIssue(remote: LinearIssue, folder: string, result: SyncResult) {
+        const record = this.state[remote.id];
+        const file = this.findNote(remote, folder);
+
+        let issue = remote;
+        let pushed = false;
+        if (file && record) {
+            const frontmatter = this.app.metadataCache.getFileCache(file)?.frontmatter ?? {};
+            const local = {} as Record<SyncField, string | null>;
+            for (const field of SYNC_FIELDS) {
+                local[field] = normalizeValue(frontmatter[field]);
+            }
+
+            const remoteValues = fieldValues(remote);
+            const edits = this.settings.syncPushFields.filter(field =>
+                !sameValue(local[field], record.fields[field]) && !sameValue(local[field], remoteValues[field])
+            );
+
+            // Removing the conflict marker from the note keeps the local values
+            const resolved = !!record.conflict && !(CONFLICT_KEY in frontmatter);
+            const conflicts = remote.updatedAt === record.updatedAt || resolved
+                ? []
+                : edits.filter(field => !sameValue(remoteValues[field], record.fields[field]));
+            if (conflicts.length) {
+                await this.markConflict(file, record, conflicts);
+                result.conflicts.push(`${remote.identifier} (${conflicts.join(', ')})`);
+                return;
+            }
+
+            for (const field of edits) {
+                issue = await this.push(issue, field, local[field]);
+                result.pushed++;
+                pushed = true;
+            }
+        }
+
+        if (file && record && !pushed && !record.conflict && issue.updatedAt === record.updatedAt) {
+            return;
+        }
+
+        const written = await this.writeNote(file, `${folder}/${issue.identifier}.md`, issue);
+        this.state[issue.id] = { path: written.path, updatedAt: issue.updatedAt, fields: fieldValues(issue) };
+        if (file) {
+            result.updated++;
+        } else {
+            result.created++;
+        }
+    }
+
+    private async markConflict(file: TFile, record: SyncRecord, fields: SyncField[]) {
+        record.conflict = fields;
+        await this.app.fileManager.processFrontMatter(file, frontmatter => {
+            frontmatter[CONFLICT_KEY] = fields;
+        });
+    }
+
+    /**
+     * Sends one edited field to Linear and returns the updated issue.
+     */
+    private async push(issue: LinearIssue, field: SyncField, value: string | null): Promise<LinearIssue> {
+        log(this.settings, `Pushing ${field} of ${issue.identifier}:`, value);
+        switch (field) {
+            case 'state': {
+                if (!value || !issue.team) {
+                    throw new Error('state can only be changed to another workflow state');
+                }
+                const states = await this.linearService.getTeamStates(issue.team.id);
+                const state = states.find(candidate => sameValue(candidate.name, value));
+                if (!state) {
+                    throw new Error(`${issue.team.name} has no workflow state "${value}"`);
+                }
+                return this.linearService.updateIssueState(issue.id, state.id);
+            }
+            case 'assignee': {
+                if (!value) {
+                    return this.linearService.updateIssueAssignee(issue.id, null);
+                }
+                const users = await this.linearService.getUsers();
+                const user = users.find(candidate => sameValue(candidate.email, value) || sameValue(candidate.name, value));
+                if (!user) {
+                    throw new Error(`No Linear user "${value}"`);
+                }
+                return this.linearService.updateIssueAssignee(issue.id, user.id);
+            }
+            case 'priority': {
+                const priority = parsePriorityLevel(value ?? 'none');
+                if (priority === null) {
+                    throw new Error(`"${value}" is not a priority; use urgent, high, medium, low or none`);
+                }
+                return this.linearService.updateIssuePriority(issue.id, priority);
+            }
+            case 'dueDate': {
+                if (value && !/^\d{4}-\d{2}-\d{2}$/.test(value)) {
+                    throw new Error(`"${value}" is not a date in YYYY-MM-DD form`);
+                }
+                return this.linearService.updateIssueDueDate(issue.id, value);
+            }
+        }
+    }
+
+    /**
+     * Writes the issue's fields to the note's frontmatter, keeping any other
+     * properties, and its description between the description markers. The
+     * rest of the body is left alone, and so is a note without the markers.
+     */
+    private async writeNote(file: TFile | null, path: string, issue: LinearIssue): Promise<TFile> {
+        if (!file) {
+            return this.app.vault.create(path, `---\n${stringifyYaml(frontmatterFor(issue))}---\n\n${descriptionSection(issue)}\n`);
+        }
+
+        await this.app.fileManager.processFrontMatter(file, frontmatter => {
+            Object.assign(frontmatter, frontmatterFor(issue));
+            delete frontmatter[CONFLICT_KEY];
+        });
+        await this.app.vault.process(file, content => {
+            const start = content.indexOf(DESCRIPTION_START);
+            const end = start === -1 ? -1 : content.indexOf(DESCRIPTION_END, start);
+            if (end === -1) {
+                log(this.settings, `${file.path} has no description markers, leaving its body as it is`);
+                return content;
+            }
+            return content.slice(0, start) + descriptionSection(issue) + content.slice(end + DESCRIPTION_END.length);
+        });
+        return file;
+    }
+}
@@ -0,0 +1,112 @@
+import { ItemView, ViewStateResult, WorkspaceLeaf } from "obsidian";
+import LinearPlugin from '../main';
+import { LinearProcessor } from '../processors/LinearProcessor';
+
+export const SAVED_QUERIES_VIEW = 'linear-saved-queries';
+
+/**
+ * Sidebar listing the saved queries, each rendered like a `linear` block using
+ * it. A query's issues load when its section is first opened, and refresh with
+ * the other blocks and on the query's `refresh` interval. Which sections are
+ * open is kept with the workspace layout.
+ */
+export class SavedQueriesView extends ItemView {
+    private open = new Set<string>();
+    private processors: LinearProcessor[] = [];
+    // The saved queries as last drawn, to tell whether settings changed them
+    private drawnQueries = '';
+
+    constructor(leaf: WorkspaceLeaf, private plugin: LinearPlugin) {
+        super(leaf);
+    }
+
+    getViewType(): string {
+        return SAVED_QUERIES_VIEW;
+    }
+
+    getDisplayText(): string {
+        return 'Linear queries';
+    }
+
+    getIcon(): string {
+        return 'list-checks';
+    }
+
+    async onOpen() {
+        this.draw();
+    }
+
+    getState(): Record<string, unknown> {
+        return { open: Array.from(this.open) };
+    }
+
+    async setState(state: unknown, result: ViewStateResult) {
+        const open = (state as { open?: unknown } | null)?.open;
+        this.open = new Set(Array.isArray(open) ? open.filter(name => typeof name === 'string') : []);
+        this.draw();
+        await super.setState(state, result);
+    }
+
+    /**
+     * Draws the view again if settings changed the saved queries. Their results
+     * are redrawn by the plugin along with every other block.
+     */
+    onSettingsChanged() {
+        if (JSON.stringify(this.plugin.settings.savedQueries) !== this.drawnQueries) {
+            this.draw();
+        }
+    }
+
+    private draw() {
+        for (const processor of this.processors) {
+            this.removeChild(processor);
+        }
+        this.processors = [];
+
+        const { contentEl } = this;
+        contentEl.empty();
+        contentEl.addClass('linear-saved-queries');
+
+        const { savedQueries } = this.plugin.settings;
+        this.drawnQueries = JSON.stringify(savedQueries);
+        if (!savedQueries.length) {
+            contentEl.createEl('p', {
+                cls: 'linear-saved-queries-empty',
+                text: 'No saved queries yet. Add them under "Saved queries" in the Linear plugin settings.'
+            });
+            return;
+        }
+
+        for (const query of savedQueries) {
+            const sectionEl = contentEl.createEl('details', { cls: 'linear-saved-query' });
+            sectionEl.createEl('summary', { text: query.name });
+            const resultsEl = sectionEl.createDiv();
+
+            let loaded = false;
+            sectionEl.addEventListener('toggle', () => {
+                if (sectionEl.open) {
+                    this.open.add(query.name);
+                } else {
+                    this.open.delete(query.name);
+                }
+                this.app.workspace.requestSaveLayout();
+
+                if (sectionEl.open && !loaded) {
+                    loaded = true;
+                    // Rendered exactly as a block containing only the query option
+                    this.render(resultsEl, `query: ${JSON.stringify(query.name)}`);
+                }
+            });
+            sectionEl.open = this.open.has(query.name);
+        }
+    }
+
+    private render(el: HTMLElement, source: string) {
+        const div = el.createDiv();
+        const processor = new LinearProcessor(this.plugin.settings, div, this.app, this.plugin.workspaces);
+        this.addChild(processor);
+        this.processors.push(processor);
+        this.plugin.trackProcessor(processor);
+        processor.process(source, div, null);
+    }
+}